@@ -0,0 +1,182 @@
+import {
+    AccountUpdate,
+    Field,
+    PublicKey,
+    PrivateKey,
+    Poseidon,
+    Provable,
+    Signature,
+    Struct,
+    Group,
+    State,
+    UInt64,
+} from 'o1js';
+import { VaultPhases } from './vault-phases.js';
+
+export {
+    AdminSet,
+    AdminApprovals,
+    maxAdmins,
+    signedSenderDigest,
+    requireAdmin,
+    storeAddressPayload,
+    updateAdminSetPayload,
+    setPhasesPayload,
+    setRewardPayload,
+    revokeAddressPayload,
+    rotateAddressPayload,
+    transferAdminPayload,
+    initRegistryPayload,
+    updateStatusPayload,
+}
+
+// maximum number of admin keys in a k-of-n admin set
+const maxAdmins = 5;
+
+/**
+ * A k-of-n admin set.
+ *
+ * Only the first `size` keys are active, the remaining slots are padded with empty keys.
+ * The vault stores `commitment()` in place of a single admin address digest.
+ */
+class AdminSet extends Struct({
+    threshold: Field,
+    size: Field,
+    admins: Provable.Array(PublicKey, maxAdmins),
+}) {
+    static from(admins: PublicKey[], threshold: number) {
+        if (admins.length > maxAdmins) {
+            throw Error(`An admin set cannot hold more than ${maxAdmins} admins!`);
+        }
+
+        const paddedAdmins = [...admins];
+        while (paddedAdmins.length < maxAdmins) paddedAdmins.push(PublicKey.empty());
+
+        return new AdminSet({ threshold: Field(threshold), size: Field(admins.length), admins: paddedAdmins });
+    }
+
+    commitment() {
+        return Poseidon.hash([this.threshold, this.size, ...this.admins.flatMap((admin) => admin.toFields())]);
+    }
+
+    isActive(index: number) {
+        return Field(index).lessThan(this.size);
+    }
+
+    assertValid() {
+        this.size.assertLessThanOrEqual(maxAdmins, `Invalid admin set! An admin set cannot hold more than ${maxAdmins} admins!`);
+        this.threshold.assertGreaterThanOrEqual(1, 'Invalid admin set! The approval threshold must be at least 1!');
+        this.threshold.assertLessThanOrEqual(this.size, 'Invalid admin set! The approval threshold cannot exceed the number of admins!');
+
+        // an admin key can only be counted once towards the threshold
+        for (let i=0; i<maxAdmins; i++) {
+            for (let j=i+1; j<maxAdmins; j++) {
+                this.isActive(j).not().or(this.admins[i].equals(this.admins[j]).not()).assertTrue('Invalid admin set! Admin keys must be unique!');
+            }
+        }
+    }
+}
+
+/**
+ * Signatures of the admins of a k-of-n admin set over an admin action payload.
+ *
+ * Admins that do not approve are given a signature of a throwaway key, which never verifies.
+ */
+class AdminApprovals extends Struct({
+    adminSet: AdminSet,
+    signatures: Provable.Array(Signature, maxAdmins),
+}) {
+    static sign(adminSet: AdminSet, payload: Field[], adminKeys: PrivateKey[]) {
+        const signatures = adminSet.admins.map((admin) => {
+            const adminKey = adminKeys.find((key) => key.toPublicKey().equals(admin).toBoolean());
+            return Signature.create(adminKey ?? PrivateKey.random(), payload);
+        });
+
+        return new AdminApprovals({ adminSet, signatures });
+    }
+
+    /**
+     * Assert that the admin set matches the on-chain admin commitment and that
+     * at least `threshold` of its admins signed the payload.
+     */
+    assertApproved(adminCommitment: Field, payload: Field[]) {
+        const { adminSet, signatures } = this;
+        adminSet.commitment().assertEquals(adminCommitment, 'Admin set does not match the on-chain admin commitment!');
+
+        let approvalCount = Field(0);
+        for (let i=0; i<maxAdmins; i++) {
+            const isActive = adminSet.isActive(i);
+
+            // inactive slots hold empty keys that are not curve points, so the generator is verified against instead
+            const admin = Provable.if(isActive, PublicKey, adminSet.admins[i], PublicKey.fromGroup(Group.generator));
+            const isApproved = isActive.and(signatures[i].verify(admin, payload));
+
+            approvalCount = approvalCount.add(Provable.if(isApproved, Field(1), Field(0)));
+        }
+
+        approvalCount.assertGreaterThanOrEqual(adminSet.threshold, 'Not enough admin approvals to call this method!');
+    }
+}
+
+/**
+ * Address digest of the transaction sender, whose account update must be signed.
+ *
+ * `this.sender` is a witness that any prover can set, the signature is what proves the caller holds the key.
+ */
+function signedSenderDigest(sender: PublicKey) {
+    AccountUpdate.createSigned(sender);
+    return Poseidon.hash(sender.toFields());
+}
+
+/**
+ * Assert that the transaction is signed by the single admin stored in `adminAddress`.
+ */
+function requireAdmin(adminAddress: State<Field>, sender: PublicKey) {
+    adminAddress.getAndRequireEquals().assertEquals(signedSenderDigest(sender), 'Only Admin is allowed to call this method!');
+}
+
+/*
+- the payloads bind a signature to a single vault, action and on-chain state
+    --> an approval is rejected while the state differs from the one it was signed against
+    --> the vault has no state slot left for an approval nonce, so an approval becomes valid again
+        if the state comes back, e.g. a reward set back to the value it was signed against
+    --> `storeAddressPayload` cannot come back, its storage index only ever increases,
+        nor can `updateStatusPayload`, a message status only ever moves forward
+*/
+function storeAddressPayload(vaultAddress: PublicKey, spyAddress: PublicKey, storageIndex: Field) {
+    return [Field(1), ...vaultAddress.toFields(), ...spyAddress.toFields(), storageIndex];
+}
+
+function updateAdminSetPayload(vaultAddress: PublicKey, currentCommitment: Field, newCommitment: Field) {
+    return [Field(2), ...vaultAddress.toFields(), currentCommitment, newCommitment];
+}
+
+// the phases can only be set once, so binding them to the vault is enough
+function setPhasesPayload(vaultAddress: PublicKey, phases: VaultPhases) {
+    return [Field(5), ...vaultAddress.toFields(), ...VaultPhases.toFields(phases)];
+}
+
+function setRewardPayload(vaultAddress: PublicKey, currentReward: UInt64, newReward: UInt64) {
+    return [Field(6), ...vaultAddress.toFields(), currentReward.value, newReward.value];
+}
+
+function revokeAddressPayload(vaultAddress: PublicKey, addressDigest: Field, storageIndex: Field) {
+    return [Field(7), ...vaultAddress.toFields(), addressDigest, storageIndex];
+}
+
+function rotateAddressPayload(vaultAddress: PublicKey, currentLeaf: Field, spyAddress: PublicKey, storageIndex: Field) {
+    return [Field(8), ...vaultAddress.toFields(), currentLeaf, ...spyAddress.toFields(), storageIndex];
+}
+
+function transferAdminPayload(vaultAddress: PublicKey, currentCommitment: Field, newAdmin: PublicKey) {
+    return [Field(9), ...vaultAddress.toFields(), currentCommitment, ...newAdmin.toFields()];
+}
+
+// a status registry can only be initialized once, so binding it to the registry is enough
+function initRegistryPayload(registryAddress: PublicKey, vaultAddress: PublicKey) {
+    return [Field(11), ...registryAddress.toFields(), ...vaultAddress.toFields()];
+}
+
+function updateStatusPayload(registryAddress: PublicKey, message: Field, index: Field, status: Field) {
+    return [Field(12), ...registryAddress.toFields(), message, index, status];
+}
@@ -0,0 +1,163 @@
+import { 
+  AnonymousMessageVault,
+  AnonymousVaultStorage,
+} from './anonymous-message-vault';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+  Poseidon,
+  Nullifier,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Anonymous Message Vault: Nullifier Submission Tests', () => {
+  let deployerKey: PrivateKey,
+  relayerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: AnonymousMessageVault,
+  storage: AnonymousVaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await AnonymousMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // any funded account can pay for an anonymous submission
+    relayerKey = Local.testAccounts[1].privateKey;
+
+    // spy keys do not need to be funded
+    spyKeys = Array.from({ length: 3 }, () => PrivateKey.random());
+    
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new AnonymousMessageVault(zkappAddress);
+
+    storage = new AnonymousVaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function submitMessage(spyKey: PrivateKey, message: Field, updateLocal=true) { 
+    let { nullifier, addressWitness, nullifierWitness, messageWitness, updates } = storage.prepareSubmitMessage(spyKey, message);
+
+    let messageTxn = await Mina.transaction(relayerKey.toPublicKey(), () => {
+      zkapp.submitAnonymousMessage(nullifier, addressWitness, nullifierWitness, message, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([relayerKey]).send();
+
+    if (updateLocal) await storage.applyWhenIncluded(txId, ...updates);
+  }
+
+  it('should deploy, initialize and enroll 3 spy addresses', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) await storeAddress(spyKey.toPublicKey());
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+  });
+
+  it('should store an anonymous message at the next free leaf independent of the address index', async () => {
+    const message = Field(123423432423423434100000n);
+    
+    // the last enrolled spy(address index 2) submits the first message
+    await submitMessage(spyKeys[2], message);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(storage.messageTree.getNode(0, 0n)).toEqual(message);
+    expect(storage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+    expect(storage.nullifierMap.getRoot()).toEqual(zkapp.nullifierRoot.get());
+  });
+
+  it('should not reveal the spy address in the emitted events', async () => {
+    const events = await zkapp.fetchEvents();
+    const spyAddressDigest = Poseidon.hash(spyKeys[2].toPublicKey().toFields());
+
+    const messageEvents = events.filter((e) => e.type !== 'Successfully stored an address');
+    expect(messageEvents.length).toEqual(2);
+
+    for (const { event } of messageEvents) {
+      const fields = (event.data as unknown as { nullifierKey?: Field, index?: Field, message?: Field });
+      expect(Object.values(fields)).not.toContainEqual(spyAddressDigest);
+    }
+  });
+
+  it('should reject a second message from the same spy', async () => {
+    const message = Field(1234234324234234340_011_000n);
+    const { nullifier, addressWitness, messageWitness } = storage.prepareSubmitMessage(spyKeys[2], message);
+
+    // tamper with the local nullifier map to get a non-membership witness of the used nullifier
+    storage.nullifierMap.set(nullifier.key(), Field(0));
+    const nullifierWitness = storage.nullifierMap.getWitness(nullifier.key());
+    storage.nullifierMap.set(nullifier.key(), Field(1));
+
+    await expect(Mina.transaction(relayerKey.toPublicKey(), () => {
+      zkapp.submitAnonymousMessage(nullifier, addressWitness, nullifierWitness, message, messageWitness);
+    })).rejects.toThrowError('Nullifier has already been used! A spy can only deposit one message!');
+  });
+
+  it('should reject a message from a non-enrolled key', async () => {
+    const impostorKey = PrivateKey.random();
+    const message = Field(100000);
+
+    // reuse the address witness of an enrolled spy with a nullifier of the impostor key
+    const { addressWitness, messageWitness } = storage.prepareSubmitMessage(spyKeys[0], message);
+    const impostorNullifier = Nullifier.fromJSON(Nullifier.createTestNullifier(zkappAddress.toFields(), impostorKey));
+    const nullifierWitness = storage.nullifierMap.getWitness(impostorNullifier.key());
+
+    await expect(Mina.transaction(relayerKey.toPublicKey(), () => {
+      zkapp.submitAnonymousMessage(impostorNullifier, addressWitness, nullifierWitness, message, messageWitness);
+    })).rejects.toThrowError('Your account is not eligible to send a message!');
+
+    const expectedErrorMessage = `Address ${impostorKey.toPublicKey().toBase58()} is not stored in the vault!`;
+    expect(() => storage.prepareSubmitMessage(impostorKey, message)).toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject an invalid message', async () => {
+    const invalidMessage = Field(1234234324234234340_111000n);
+    await expect(submitMessage(spyKeys[0], invalidMessage)).rejects.toThrowError('Invalid Message! Rule1 is violated!');
+  });
+
+  it('should store messages from the other spies in submission order', async () => {
+    await submitMessage(spyKeys[0], Field(1234234324234234340_011_100n));
+    await submitMessage(spyKeys[1], Field(1234234324234234340_000_001n));
+
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+    expect(storage.messageTree.getNode(0, 1n)).toEqual(Field(1234234324234234340_011_100n));
+    expect(storage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+  });
+});
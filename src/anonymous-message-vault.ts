@@ -0,0 +1,297 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    PrivateKey,
+    Field,
+    Poseidon,
+    Struct,
+    MerkleMap,
+    MerkleMapWitness,
+    MerkleTree,
+    Nullifier,
+    Mina,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { signedSenderDigest, requireAdmin } from './admin-set.js';
+import type { PendingLeafUpdate } from './vault-storage.js';
+import {
+    MessageVault,
+    SpyMerkleWitness,
+    MessageMerkleWitness,
+    emptyTreeRoot,
+    AddressStoredEvent,
+    MessageStoredEvent,
+    validateMessage,
+} from './message-vault.js';
+
+export {
+    AnonymousMessageVault,
+    AnonymousVaultStorage,
+    NullifierUsedEvent,
+    PendingAnonymousUpdate,
+}
+
+class NullifierUsedEvent extends Struct({ nullifierKey: Field }) {}
+
+/**
+ * A leaf update of the address or message tree, or a nullifier marked as used,
+ * only applied to the off-chain storage once the transaction is confirmed.
+ */
+type PendingAnonymousUpdate = PendingLeafUpdate | {
+    tree: 'nullifier';
+    key: Field;
+}
+
+// root of an empty nullifier Merkle Map
+const emptyNullifierRoot = new MerkleMap().getRoot();
+
+// same tree size and storage cap as the default vault
+const { height, capacity } = MessageVault.config;
+
+// root of an empty address or message Merkle Tree
+const emptyRoot = emptyTreeRoot(height);
+
+/**
+ * A message vault where enrolled spies submit messages anonymously.
+ *
+ * Instead of authenticating through `this.sender`, a spy proves in zero knowledge that the
+ * public key behind a nullifier belongs to `addressCommitment` and publishes the nullifier key.
+ *
+ * The nullifier set prevents double submission without revealing the address leaf, and messages
+ * are appended to their own tree at index `messageCount` so they have no link to address indices.
+ */
+class AnonymousMessageVault extends VaultContract {
+    @state(Field) adminAddress = State<Field>();
+
+    @state(Field) addressCommitment = State<Field>();
+    @state(Field) spyCount = State<Field>();
+
+    @state(Field) nullifierRoot = State<Field>();
+
+    @state(Field) messageCommitment = State<Field>();
+    @state(Field) messageCount = State<Field>();
+
+    events = {
+        "Successfully stored an address": AddressStoredEvent,
+        "Successfully stored a message": MessageStoredEvent,
+        "Nullifier used": NullifierUsedEvent,
+    }
+
+    @method initVault() {
+        super.init();
+
+        // the admin is set as the zkapp initializer
+        this.adminAddress.set(signedSenderDigest(this.sender));
+
+        // set address commitment as the root of an empty Merkle Tree
+        this.addressCommitment.set(emptyRoot);
+        this.spyCount.set(Field(-1));
+
+        // set nullifier root as the root of an empty Merkle Map
+        this.nullifierRoot.set(emptyNullifierRoot);
+
+        // set message commitment as the root of an empty Merkle Tree
+        this.messageCommitment.set(emptyRoot);
+        this.messageCount.set(Field(0));
+    }
+
+    /**
+     * Same enrollment logic as `MessageVault.storeAddress`.
+     */
+    @method storeAddress(spyAddress: PublicKey, addressWitness: SpyMerkleWitness) {
+        // assert that only the admin is allowed to store addresses
+        requireAdmin(this.adminAddress, this.sender);
+
+        // fetch on-chain address counter and add 1
+        let incrementedCount = this.spyCount.getAndRequireEquals().add(1);
+
+        // make sure not to store more than `capacity` addresses
+        incrementedCount.assertLessThan(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+
+        // make sure storage index is in sync with the on-chain spy address counter
+        let storageIndex = addressWitness.calculateIndex();
+        storageIndex.assertEquals(incrementedCount, 'Off-chain storage index is not compliant!');
+
+        // check that the address leaf is empty and that the off-chain address storage is in sync
+        let currentCommitment = addressWitness.calculateRoot(Field(0));
+        this.addressCommitment.getAndRequireEquals().assertEquals(currentCommitment, 'Off-chain address merkle tree is out of sync!');
+
+        let addressDigest = Poseidon.hash(spyAddress.toFields());
+
+        // update the on-chain address Merkle Tree commitment(root) and count
+        this.addressCommitment.set(addressWitness.calculateRoot(addressDigest));
+        this.spyCount.set(incrementedCount);
+
+        this.emitEvent("Successfully stored an address", new AddressStoredEvent({ index: storageIndex, addressDigest }));
+    }
+
+    /**
+     * Store a message without revealing which enrolled address sent it.
+     *
+     * @param nullifier nullifier of the spy key over the vault address
+     * @param addressWitness witness of the spy address leaf, kept private in the proof
+     * @param nullifierWitness Merkle Map witness of the (unused) nullifier key
+     * @param message the message to store
+     * @param messageWitness witness of the next free leaf of the message tree
+     */
+    @method submitAnonymousMessage(
+        nullifier: Nullifier,
+        addressWitness: SpyMerkleWitness,
+        nullifierWitness: MerkleMapWitness,
+        message: Field,
+        messageWitness: MessageMerkleWitness,
+    ) {
+        /*
+        - verify that the nullifier was created by the owner of its public key for this vault
+            --> the nullifier is unique per spy key and per vault
+        */
+        nullifier.verify(this.address.toFields());
+
+        /*
+        - check that the nullifier public key is an enrolled address
+            --> the address witness is a private input so the leaf index is not revealed
+        */
+        let spyAddressDigest = Poseidon.hash(nullifier.getPublicKey().toFields());
+        let spyCommitment = addressWitness.calculateRoot(spyAddressDigest);
+        spyCommitment.assertEquals(this.addressCommitment.getAndRequireEquals(), 'Your account is not eligible to send a message!');
+
+        // check that the nullifier has not been used before
+        let nullifierRoot = this.nullifierRoot.getAndRequireEquals();
+        nullifier.isUnused(nullifierWitness, nullifierRoot).assertTrue('Nullifier has already been used! A spy can only deposit one message!');
+
+        // messages are appended to the message tree at index `messageCount`
+        let messageCount = this.messageCount.getAndRequireEquals();
+        messageWitness.calculateIndex().assertEquals(messageCount, 'Message index is not the next free leaf of the message tree!');
+
+        // check that the message leaf is empty and that the off-chain message storage is in sync
+        let currentMessageCommitment = messageWitness.calculateRoot(Field(0));
+        this.messageCommitment.getAndRequireEquals().assertEquals(currentMessageCommitment, 'Off-chain message merkle tree is out of sync!');
+
+        // validate message flags
+        validateMessage(message);
+
+        // mark the nullifier as used
+        this.nullifierRoot.set(nullifier.setUsed(nullifierWitness));
+
+        // update the on-chain message Merkle Tree commitment(root)
+        this.messageCommitment.set(messageWitness.calculateRoot(message));
+
+        const updatedMessageCount = messageCount.add(1);
+        updatedMessageCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} messages!`);
+        this.messageCount.set(updatedMessageCount);
+
+        this.emitEvent("Nullifier used", new NullifierUsedEvent({ nullifierKey: nullifier.key() }));
+        this.emitEvent("Successfully stored a message", new MessageStoredEvent({ index: messageCount, message }));
+    }
+}
+
+/**
+ * Off-chain storage client of an `AnonymousMessageVault`.
+ *
+ * Besides the address and message trees it keeps the nullifier map, the nullifier of a submission
+ * is only marked as used along with its message leaf once the transaction is confirmed.
+ */
+class AnonymousVaultStorage {
+    readonly addressTree: MerkleTree;
+    readonly messageTree: MerkleTree;
+    readonly nullifierMap: MerkleMap;
+    private addressIndexMap: Map<string, bigint>;
+
+    constructor(public zkapp: AnonymousMessageVault) {
+        this.addressTree = new MerkleTree(height);
+        this.messageTree = new MerkleTree(height);
+        this.nullifierMap = new MerkleMap();
+        this.addressIndexMap = new Map<string, bigint>();
+    }
+
+    assertSync() {
+        if (!this.addressTree.getRoot().equals(this.zkapp.addressCommitment.get()).toBoolean()) {
+            throw Error('Local address Merkle Tree has drifted from the on-chain addressCommitment!');
+        }
+
+        if (!this.nullifierMap.getRoot().equals(this.zkapp.nullifierRoot.get()).toBoolean()) {
+            throw Error('Local nullifier Merkle Map has drifted from the on-chain nullifierRoot!');
+        }
+
+        if (!this.messageTree.getRoot().equals(this.zkapp.messageCommitment.get()).toBoolean()) {
+            throw Error('Local message Merkle Tree has drifted from the on-chain messageCommitment!');
+        }
+    }
+
+    prepareStoreAddress(spyAddress: PublicKey) {
+        this.assertSync();
+
+        const index = this.zkapp.spyCount.get().add(1).toBigInt();
+        const witness = new SpyMerkleWitness(this.addressTree.getWitness(index));
+        const update: PendingAnonymousUpdate = {
+            tree: 'address',
+            index,
+            value: Poseidon.hash(spyAddress.toFields()),
+        };
+
+        return { witness, update };
+    }
+
+    /**
+     * Build the nullifier and witnesses for `submitAnonymousMessage`.
+     *
+     * Note: `Nullifier.createTestNullifier` is meant for testing, in production the nullifier
+     * should be created by the spy wallet so the private key never leaves it.
+     */
+    prepareSubmitMessage(spyKey: PrivateKey, message: Field) {
+        this.assertSync();
+
+        const spyAddressDigest = Poseidon.hash(spyKey.toPublicKey().toFields());
+        const addressIndex = this.addressIndexMap.get(spyAddressDigest.toString());
+        if (addressIndex === undefined) {
+            throw Error(`Address ${spyKey.toPublicKey().toBase58()} is not stored in the vault!`);
+        }
+
+        const nullifierJson = Nullifier.createTestNullifier(this.zkapp.address.toFields(), spyKey);
+        const nullifier = Nullifier.fromJSON(nullifierJson);
+        const nullifierKey = nullifier.key();
+
+        const addressWitness = new SpyMerkleWitness(this.addressTree.getWitness(addressIndex));
+        const nullifierWitness = this.nullifierMap.getWitness(nullifierKey);
+
+        const messageIndex = this.zkapp.messageCount.get().toBigInt();
+        const messageWitness = new MessageMerkleWitness(this.messageTree.getWitness(messageIndex));
+
+        const updates: PendingAnonymousUpdate[] = [
+            { tree: 'nullifier', key: nullifierKey },
+            { tree: 'message', index: messageIndex, value: message },
+        ];
+
+        return { nullifier, addressWitness, nullifierWitness, messageWitness, updates };
+    }
+
+    /**
+     * Apply a pending update to the local trees and nullifier map.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingAnonymousUpdate) {
+        if (update.tree === 'nullifier') {
+            this.nullifierMap.set(update.key, Field(1));
+        } else if (update.tree === 'address') {
+            this.addressTree.setLeaf(update.index, update.value);
+            this.addressIndexMap.set(update.value.toString(), update.index);
+        } else {
+            this.messageTree.setLeaf(update.index, update.value);
+        }
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingAnonymousUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+}
@@ -0,0 +1,262 @@
+import {
+  ChannelMessageVault,
+  ChannelVaultStorage,
+  Channel,
+  channelId,
+} from './channel-message-vault';
+import {
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Channel Message Vault: Topic Channel Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  intruderKey: PrivateKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: ChannelMessageVault,
+  storage: ChannelVaultStorage;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await ChannelMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+    intruderKey = Local.testAccounts[4].privateKey;
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkapp = new ChannelMessageVault(zkappPrivateKey.toPublicKey());
+    storage = new ChannelVaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) {
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function createChannel(name: string, senderKey=deployerKey) {
+    let { id, channelWitness, update } = storage.prepareCreateChannel(name);
+
+    let createTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.createChannel(id, channelWitness);
+    });
+    await createTxn.prove();
+    let txId = await createTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function closeChannel(name: string) {
+    let { channel, channelWitness, update } = storage.prepareCloseChannel(name);
+
+    let closeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.closeChannel(channel, channelWitness);
+    });
+    await closeTxn.prove();
+    let txId = await closeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function addChannelMember(name: string, spyAddress: PublicKey) {
+    let { channel, channelWitness, addressWitness, memberWitness, update } = storage.prepareAddChannelMember(name, spyAddress);
+
+    let memberTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.addChannelMember(channel, channelWitness, spyAddress, addressWitness, memberWitness);
+    });
+    await memberTxn.prove();
+    let txId = await memberTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(name: string, spyKey: PrivateKey) {
+    let senderAddress = spyKey.toPublicKey();
+    let { channel, channelWitness, addressWitness, memberWitness, messageWitness, update } = storage.prepareStoreMessage(name, senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(channel, channelWitness, addressWitness, memberWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy, initialize and enroll 3 spy addresses', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) await storeAddress(spyKey.toPublicKey());
+
+    expect(zkapp.spyCount.get()).toEqual(Field(3));
+  });
+
+  it('should reject tx for any sender except the admin to create a channel', async () => {
+    await expect(createChannel('alpha', spyKeys[0])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should create two channels', async () => {
+    await createChannel('alpha');
+    await createChannel('bravo');
+
+    expect(storage.getChannel('alpha')).toEqual(Channel.open(channelId('alpha')));
+    expect(storage.channelMap.getRoot()).toEqual(zkapp.channelRoot.get());
+  });
+
+  it('should reject creating a channel twice', async () => {
+    expect(() => storage.prepareCreateChannel('alpha')).toThrowError('Channel alpha already exists!');
+
+    const id = channelId('alpha');
+    const channelWitness = storage.channelMap.getWitness(id);
+    await expect(Mina.transaction(deployerAccount, () => {
+      zkapp.createChannel(id, channelWitness);
+    })).rejects.toThrowError('Channel already exists or off-chain channel merkle map is out of sync!');
+  });
+
+  it('should allow enrolled spies on each channel', async () => {
+    await addChannelMember('alpha', spyKeys[0].toPublicKey());
+    await addChannelMember('alpha', spyKeys[1].toPublicKey());
+    await addChannelMember('bravo', spyKeys[2].toPublicKey());
+
+    expect(storage.getChannel('alpha').memberRoot).not.toEqual(storage.getChannel('bravo').memberRoot);
+  });
+
+  it('should reject a channel member that is not enrolled in the vault', async () => {
+    await expect(addChannelMember('bravo', intruderKey.toPublicKey())).rejects.toThrowError('Only an enrolled address can join a channel!');
+  });
+
+  it('should reject a message for the channel key of a member that did not sign the transaction', async () => {
+    const spyAddress = spyKeys[0].toPublicKey();
+    const { channel, channelWitness, addressWitness, memberWitness, messageWitness } = storage.prepareStoreMessage('alpha', spyAddress, message);
+
+    // `this.sender` is a witness, a prover can claim the key of another member while paying the fee with its own key
+    Object.defineProperty(zkapp, 'sender', { get: () => spyAddress, configurable: true });
+    try {
+      const messageTxn = await Mina.transaction(intruderKey.toPublicKey(), () => {
+        zkapp.checkAndStoreMessage(channel, channelWitness, addressWitness, memberWitness, message, messageWitness);
+      });
+      await messageTxn.prove();
+      await expect(messageTxn.sign([intruderKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(storage.getChannel('alpha').messageCount).toEqual(Field(0));
+    expect(zkapp.messageCount.get()).toEqual(Field(0));
+  });
+
+  it('should store a message in one channel without touching the other', async () => {
+    const bravoLeaf = storage.channelMap.get(channelId('bravo'));
+
+    await storeMessage('alpha', spyKeys[0]);
+
+    expect(storage.getChannel('alpha').messageCount).toEqual(Field(1));
+    expect(storage.getChannelMessage('alpha', spyKeys[0].toPublicKey())).toEqual(message);
+    expect(storage.channelMap.get(channelId('bravo'))).toEqual(bravoLeaf);
+    expect(storage.getChannel('bravo').messageCount).toEqual(Field(0));
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should isolate the roots of both channels', async () => {
+    const alphaLeaf = storage.channelMap.get(channelId('alpha'));
+    const alphaMessageRoot = storage.getChannel('alpha').messageRoot;
+
+    await storeMessage('bravo', spyKeys[2]);
+
+    expect(storage.channelMap.get(channelId('alpha'))).toEqual(alphaLeaf);
+    expect(storage.getChannel('alpha').messageRoot).toEqual(alphaMessageRoot);
+    expect(storage.getChannel('bravo').messageRoot).not.toEqual(alphaMessageRoot);
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+  });
+
+  it('should reject a message from a spy that is not a member of the channel', async () => {
+    expect(() => storage.prepareStoreMessage('alpha', spyKeys[2].toPublicKey(), message)).toThrowError('is not a member of channel alpha!');
+
+    // an eligible spy of the vault with the member witness of another channel
+    const senderAddress = spyKeys[2].toPublicKey();
+    const addressDigest = ChannelVaultStorage.hashAddress(senderAddress);
+    const { channel, channelWitness, addressWitness, messageWitness } = storage.prepareStoreMessage('alpha', spyKeys[0].toPublicKey(), message);
+    const bravoMemberWitness = storage.prepareStoreMessage('bravo', senderAddress, message).memberWitness;
+
+    expect(addressDigest).toEqual(bravoMemberWitness.computeRootAndKey(Field(1))[1]);
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(channel, channelWitness, storage.addressMap.getWitness(addressDigest), bravoMemberWitness, message, messageWitness);
+    })).rejects.toThrowError('Your account is not a member of the channel!');
+
+    // the channel witness of one channel cannot carry the state of the other
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(channel, storage.channelMap.getWitness(channelId('bravo')), addressWitness, bravoMemberWitness, message, messageWitness);
+    })).rejects.toThrowError('Channel witness does not match the channel!');
+  });
+
+  it('should reject a channel that does not match its on-chain leaf', async () => {
+    const senderAddress = spyKeys[1].toPublicKey();
+    const { channel, channelWitness, addressWitness, memberWitness, messageWitness } = storage.prepareStoreMessage('alpha', senderAddress, message);
+
+    // pretend the alpha channel holds the message root of the bravo channel
+    const forgedChannel = new Channel({ ...channel, messageRoot: storage.getChannel('bravo').messageRoot });
+
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(forgedChannel, channelWitness, addressWitness, memberWitness, message, messageWitness);
+    })).rejects.toThrowError('Channel does not exist or off-chain channel merkle map is out of sync!');
+  });
+
+  it('should reject a second message of a spy in the same channel', async () => {
+    const senderAddress = spyKeys[0].toPublicKey();
+    const { channel, channelWitness, addressWitness, memberWitness, messageWitness } = storage.prepareStoreMessage('alpha', senderAddress, message);
+
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(channel, channelWitness, addressWitness, memberWitness, message, messageWitness);
+    })).rejects.toThrowError('Message is already stored or off-chain channel message merkle map is out of sync!');
+  });
+
+  it('should reject messages and members once a channel is closed', async () => {
+    await closeChannel('alpha');
+    expect(storage.getChannel('alpha').isOpen.toBoolean()).toEqual(false);
+
+    await expect(storeMessage('alpha', spyKeys[1])).rejects.toThrowError('Channel is closed!');
+    await expect(addChannelMember('alpha', spyKeys[2].toPublicKey())).rejects.toThrowError('Channel is closed!');
+    expect(storage.getChannel('bravo').isOpen.toBoolean()).toEqual(true);
+  });
+
+  it('should rebuild the channels from events', async () => {
+    const rebuiltStorage = await ChannelVaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.getChannel('alpha')).toEqual(storage.getChannel('alpha'));
+    expect(rebuiltStorage.getChannel('bravo')).toEqual(storage.getChannel('bravo'));
+    expect(rebuiltStorage.getChannelMessage('bravo', spyKeys[2].toPublicKey())).toEqual(message);
+  });
+});
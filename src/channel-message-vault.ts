@@ -0,0 +1,489 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    Field,
+    Bool,
+    Poseidon,
+    Struct,
+    MerkleMap,
+    MerkleMapWitness,
+    CircuitString,
+    Mina,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { signedSenderDigest, requireAdmin } from './admin-set.js';
+import { MessageVault, validateMessage } from './message-vault.js';
+
+export {
+    ChannelMessageVault,
+    ChannelVaultStorage,
+    Channel,
+    ChannelMemberEvent,
+    ChannelMessageEvent,
+    channelId,
+}
+
+class ChannelMemberEvent extends Struct({ channelId: Field, addressDigest: Field }) {}
+class ChannelMessageEvent extends Struct({ channelId: Field, addressDigest: Field, message: Field }) {}
+
+// same address cap as the default vault
+const { capacity } = MessageVault.config;
+
+// root of an empty Merkle Map
+const emptyMapRoot = new MerkleMap().getRoot();
+
+/**
+ * Key of a named channel in the channel Merkle Map.
+ */
+function channelId(name: string) {
+    return Poseidon.hash(CircuitString.fromString(name).toFields());
+}
+
+/**
+ * A channel of a `ChannelMessageVault`, only its hash is stored at the channel key in the channel Merkle Map.
+ *
+ * - memberRoot: root of a Merkle Map holding 1 at the digest of each spy allowed to send to the channel.
+ * - messageRoot: root of a Merkle Map holding the message of each member at its address digest.
+ * - messageCount: number of messages sent to the channel.
+ * - isOpen: a closed channel accepts neither new members nor messages.
+ */
+class Channel extends Struct({
+    id: Field,
+    memberRoot: Field,
+    messageRoot: Field,
+    messageCount: Field,
+    isOpen: Bool,
+}) {
+    static open(id: Field) {
+        return new Channel({ id, memberRoot: emptyMapRoot, messageRoot: emptyMapRoot, messageCount: Field(0), isOpen: Bool(true) });
+    }
+
+    hash() {
+        return Poseidon.hash(Channel.toFields(this));
+    }
+}
+
+/**
+ * A message vault split into named channels, e.g. one per operation.
+ *
+ * Addresses are enrolled once in the vault address Merkle Map, then the admin allows them on each channel.
+ * Every channel has its own members, message root and message count, held in its leaf of the channel Merkle Map,
+ * so a submission to a channel can only change the leaf of that channel. `messageCount` covers all channels.
+ */
+class ChannelMessageVault extends VaultContract {
+    @state(Field) adminAddress = State<Field>();
+
+    @state(Field) addressRoot = State<Field>();
+    @state(Field) spyCount = State<Field>();
+
+    @state(Field) channelRoot = State<Field>();
+    @state(Field) messageCount = State<Field>();
+
+    events = {
+        "Successfully stored an address": Field,
+        "Successfully created a channel": Field,
+        "Successfully closed a channel": Field,
+        "Successfully added a channel member": ChannelMemberEvent,
+        "Successfully stored a message": ChannelMessageEvent,
+    }
+
+    @method initVault() {
+        super.init();
+
+        // the admin is set as the zkapp initializer
+        this.adminAddress.set(signedSenderDigest(this.sender));
+
+        // set address and channel roots as the root of an empty Merkle Map
+        this.addressRoot.set(emptyMapRoot);
+        this.spyCount.set(Field(0));
+
+        this.channelRoot.set(emptyMapRoot);
+        this.messageCount.set(Field(0));
+    }
+
+    /**
+     * Enroll an address in the vault at the key of its digest.
+     * @param spyAddress
+     * @param addressWitness Merkle Map witness of the address digest
+     */
+    @method storeAddress(spyAddress: PublicKey, addressWitness: MerkleMapWitness) {
+        requireAdmin(this.adminAddress, this.sender);
+
+        // the counter only enforces the cap, it is not tied to any key
+        const incrementedCount = this.spyCount.getAndRequireEquals().add(1);
+        incrementedCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+
+        const addressDigest = Poseidon.hash(spyAddress.toFields());
+
+        // check that the key of the address is empty and the off-chain address storage is in sync
+        const [currentRoot, key] = addressWitness.computeRootAndKey(Field(0));
+        key.assertEquals(addressDigest, 'Address witness does not match the spy address!');
+        this.addressRoot.getAndRequireEquals().assertEquals(currentRoot, 'Address is already enrolled or off-chain address merkle map is out of sync!');
+
+        const [updatedRoot] = addressWitness.computeRootAndKey(Field(1));
+        this.addressRoot.set(updatedRoot);
+        this.spyCount.set(incrementedCount);
+
+        this.emitEvent("Successfully stored an address", addressDigest);
+    }
+
+    /**
+     * Create an open channel without members.
+     * @param id the channel key, see `channelId`
+     * @param channelWitness Merkle Map witness of the channel key
+     */
+    @method createChannel(id: Field, channelWitness: MerkleMapWitness) {
+        requireAdmin(this.adminAddress, this.sender);
+
+        // check that the channel key is empty and the off-chain channel storage is in sync
+        const [currentRoot, key] = channelWitness.computeRootAndKey(Field(0));
+        key.assertEquals(id, 'Channel witness does not match the channel!');
+        this.channelRoot.getAndRequireEquals().assertEquals(currentRoot, 'Channel already exists or off-chain channel merkle map is out of sync!');
+
+        const [updatedRoot] = channelWitness.computeRootAndKey(Channel.open(id).hash());
+        this.channelRoot.set(updatedRoot);
+
+        this.emitEvent("Successfully created a channel", id);
+    }
+
+    /**
+     * Close a channel for good, its members and messages are kept.
+     * @param channel the current channel
+     * @param channelWitness Merkle Map witness of the channel key
+     */
+    @method closeChannel(channel: Channel, channelWitness: MerkleMapWitness) {
+        requireAdmin(this.adminAddress, this.sender);
+        this.requireOpenChannel(channel, channelWitness);
+
+        const [updatedRoot] = channelWitness.computeRootAndKey(new Channel({ ...channel, isOpen: Bool(false) }).hash());
+        this.channelRoot.set(updatedRoot);
+
+        this.emitEvent("Successfully closed a channel", channel.id);
+    }
+
+    /**
+     * Allow an enrolled address to send to a channel.
+     * @param channel the current channel
+     * @param channelWitness Merkle Map witness of the channel key
+     * @param spyAddress
+     * @param addressWitness Merkle Map witness of the address digest in the vault address map
+     * @param memberWitness Merkle Map witness of the address digest in the channel member map
+     */
+    @method addChannelMember(channel: Channel, channelWitness: MerkleMapWitness, spyAddress: PublicKey, addressWitness: MerkleMapWitness, memberWitness: MerkleMapWitness) {
+        requireAdmin(this.adminAddress, this.sender);
+        this.requireOpenChannel(channel, channelWitness);
+
+        // channel members are a subset of the enrolled addresses
+        const addressDigest = Poseidon.hash(spyAddress.toFields());
+        this.requireEnrolled(addressDigest, addressWitness, 'Only an enrolled address can join a channel!');
+
+        const [currentMemberRoot, memberKey] = memberWitness.computeRootAndKey(Field(0));
+        memberKey.assertEquals(addressDigest, 'Member witness does not match the spy address!');
+        channel.memberRoot.assertEquals(currentMemberRoot, 'Address is already a channel member or off-chain member merkle map is out of sync!');
+
+        const [memberRoot] = memberWitness.computeRootAndKey(Field(1));
+        const [updatedRoot] = channelWitness.computeRootAndKey(new Channel({ ...channel, memberRoot }).hash());
+        this.channelRoot.set(updatedRoot);
+
+        this.emitEvent("Successfully added a channel member", new ChannelMemberEvent({ channelId: channel.id, addressDigest }));
+    }
+
+    /**
+     * Store the message of the sender in a channel, one message per member and channel.
+     * @param channel the current channel
+     * @param channelWitness Merkle Map witness of the channel key
+     * @param addressWitness Merkle Map witness of the sender address digest in the vault address map
+     * @param memberWitness Merkle Map witness of the sender address digest in the channel member map
+     * @param message
+     * @param messageWitness Merkle Map witness of the sender address digest in the channel message map
+     */
+    @method checkAndStoreMessage(
+        channel: Channel,
+        channelWitness: MerkleMapWitness,
+        addressWitness: MerkleMapWitness,
+        memberWitness: MerkleMapWitness,
+        message: Field,
+        messageWitness: MerkleMapWitness,
+    ) {
+        this.requireOpenChannel(channel, channelWitness);
+
+        /*
+        1. check the usual eligibility of the sender in the vault
+        2. check that the sender is a member of the channel
+        */
+        // the sender signs so that nobody can spend the channel key of another member
+        const senderAddressDigest = signedSenderDigest(this.sender);
+        this.requireEnrolled(senderAddressDigest, addressWitness, 'Your account is not eligible to send a message!');
+
+        const [memberRoot, memberKey] = memberWitness.computeRootAndKey(Field(1));
+        memberKey.assertEquals(senderAddressDigest, 'Your account is not a member of the channel!');
+        channel.memberRoot.assertEquals(memberRoot, 'Your account is not a member of the channel!');
+
+        // check that the sender has not sent a message to the channel yet
+        const [currentMessageRoot, messageKey] = messageWitness.computeRootAndKey(Field(0));
+        messageKey.assertEquals(senderAddressDigest, 'Message witness does not match the sender address!');
+        channel.messageRoot.assertEquals(currentMessageRoot, 'Message is already stored or off-chain channel message merkle map is out of sync!');
+
+        // an empty message cannot be told apart from an empty key
+        message.assertNotEquals(0, 'Cannot store an empty message!');
+        validateMessage(message);
+
+        // only the leaf of this channel changes
+        const [messageRoot] = messageWitness.computeRootAndKey(message);
+        const updatedChannel = new Channel({ ...channel, messageRoot, messageCount: channel.messageCount.add(1) });
+        const [updatedRoot] = channelWitness.computeRootAndKey(updatedChannel.hash());
+        this.channelRoot.set(updatedRoot);
+
+        // the vault message count covers all channels
+        this.messageCount.set(this.messageCount.getAndRequireEquals().add(1));
+
+        this.emitEvent("Successfully stored a message", new ChannelMessageEvent({ channelId: channel.id, addressDigest: senderAddressDigest, message }));
+    }
+
+    private requireEnrolled(addressDigest: Field, addressWitness: MerkleMapWitness, errorMessage: string) {
+        const [addressRoot, addressKey] = addressWitness.computeRootAndKey(Field(1));
+        addressKey.assertEquals(addressDigest, errorMessage);
+        this.addressRoot.getAndRequireEquals().assertEquals(addressRoot, errorMessage);
+    }
+
+    // check that the channel is the current leaf of its key and is still open
+    private requireOpenChannel(channel: Channel, channelWitness: MerkleMapWitness) {
+        const [currentRoot, key] = channelWitness.computeRootAndKey(channel.hash());
+        key.assertEquals(channel.id, 'Channel witness does not match the channel!');
+        this.channelRoot.getAndRequireEquals().assertEquals(currentRoot, 'Channel does not exist or off-chain channel merkle map is out of sync!');
+
+        channel.isOpen.assertTrue('Channel is closed!');
+    }
+}
+
+type ChannelStorage = {
+    channel: Channel;
+    memberMap: MerkleMap;
+    messageMap: MerkleMap;
+}
+
+/**
+ * A change of the address map or of a single channel, mirroring the vault events,
+ * only applied to the off-chain storage once the transaction is confirmed.
+ */
+type PendingChannelUpdate =
+    | { kind: 'address'; addressDigest: Field }
+    | { kind: 'createChannel'; id: Field }
+    | { kind: 'closeChannel'; id: Field }
+    | { kind: 'member'; id: Field; addressDigest: Field }
+    | { kind: 'message'; id: Field; addressDigest: Field; message: Field };
+
+/**
+ * Off-chain storage client of a `ChannelMessageVault`, channels are referred to by name.
+ *
+ * Besides the channel map, it keeps the member and message maps of every channel,
+ * the channel map only holds the hash of each channel.
+ */
+class ChannelVaultStorage {
+    readonly addressMap: MerkleMap;
+    readonly channelMap: MerkleMap;
+    private channels: Map<string, ChannelStorage>;
+
+    constructor(public zkapp: ChannelMessageVault) {
+        this.addressMap = new MerkleMap();
+        this.channelMap = new MerkleMap();
+        this.channels = new Map<string, ChannelStorage>();
+    }
+
+    static hashAddress(address: PublicKey) {
+        return Poseidon.hash(address.toFields());
+    }
+
+    /**
+     * Rebuild the off-chain storage of a vault by replaying its on-chain events.
+     *
+     * Throws if the rebuilt roots do not match the on-chain roots.
+     */
+    static async fromEvents(zkapp: ChannelMessageVault) {
+        const storage = new ChannelVaultStorage(zkapp);
+        const events = await zkapp.fetchEvents();
+
+        for (const { type, event } of events) {
+            if (type === "Successfully stored an address") {
+                storage.applyUpdate({ kind: 'address', addressDigest: event.data as unknown as Field });
+            } else if (type === "Successfully created a channel") {
+                storage.applyUpdate({ kind: 'createChannel', id: event.data as unknown as Field });
+            } else if (type === "Successfully closed a channel") {
+                storage.applyUpdate({ kind: 'closeChannel', id: event.data as unknown as Field });
+            } else if (type === "Successfully added a channel member") {
+                const { channelId, addressDigest } = event.data as unknown as ChannelMemberEvent;
+                storage.applyUpdate({ kind: 'member', id: channelId, addressDigest });
+            } else if (type === "Successfully stored a message") {
+                const { channelId, addressDigest, message } = event.data as unknown as ChannelMessageEvent;
+                storage.applyUpdate({ kind: 'message', id: channelId, addressDigest, message });
+            }
+        }
+
+        storage.assertSync();
+
+        return storage;
+    }
+
+    assertSync() {
+        if (!this.addressMap.getRoot().equals(this.zkapp.addressRoot.get()).toBoolean()) {
+            throw Error('Local address Merkle Map has drifted from the on-chain addressRoot!');
+        }
+
+        if (!this.channelMap.getRoot().equals(this.zkapp.channelRoot.get()).toBoolean()) {
+            throw Error('Local channel Merkle Map has drifted from the on-chain channelRoot!');
+        }
+    }
+
+    /**
+     * The current state of a channel, e.g. its message count.
+     */
+    getChannel(name: string) {
+        return this.getChannelById(channelId(name)).channel;
+    }
+
+    getChannelMessage(name: string, sender: PublicKey) {
+        return this.getChannelById(channelId(name)).messageMap.get(ChannelVaultStorage.hashAddress(sender));
+    }
+
+    prepareStoreAddress(spyAddress: PublicKey) {
+        this.assertSync();
+
+        const addressDigest = ChannelVaultStorage.hashAddress(spyAddress);
+        if (!this.addressMap.get(addressDigest).equals(0).toBoolean()) throw Error(`Address ${spyAddress.toBase58()} is already enrolled!`);
+
+        const witness = this.addressMap.getWitness(addressDigest);
+
+        const update: PendingChannelUpdate = { kind: 'address', addressDigest };
+
+        return { witness, update };
+    }
+
+    prepareCreateChannel(name: string) {
+        this.assertSync();
+
+        const id = channelId(name);
+        if (this.channels.has(id.toString())) throw Error(`Channel ${name} already exists!`);
+
+        const channelWitness = this.channelMap.getWitness(id);
+
+        const update: PendingChannelUpdate = { kind: 'createChannel', id };
+
+        return { id, channelWitness, update };
+    }
+
+    prepareCloseChannel(name: string) {
+        this.assertSync();
+
+        const { channel } = this.getChannelById(channelId(name));
+        const channelWitness = this.channelMap.getWitness(channel.id);
+
+        const update: PendingChannelUpdate = { kind: 'closeChannel', id: channel.id };
+
+        return { channel, channelWitness, update };
+    }
+
+    prepareAddChannelMember(name: string, spyAddress: PublicKey) {
+        this.assertSync();
+
+        const stored = this.getChannelById(channelId(name));
+        const addressDigest = ChannelVaultStorage.hashAddress(spyAddress);
+        if (!stored.memberMap.get(addressDigest).equals(0).toBoolean()) throw Error(`Address ${spyAddress.toBase58()} is already a member of channel ${name}!`);
+
+        const { channel } = stored;
+        const channelWitness = this.channelMap.getWitness(channel.id);
+        const addressWitness = this.addressMap.getWitness(addressDigest);
+        const memberWitness = stored.memberMap.getWitness(addressDigest);
+
+        const update: PendingChannelUpdate = { kind: 'member', id: channel.id, addressDigest };
+
+        return { channel, channelWitness, addressWitness, memberWitness, update };
+    }
+
+    prepareStoreMessage(name: string, sender: PublicKey, message: Field) {
+        this.assertSync();
+
+        const stored = this.getChannelById(channelId(name));
+        const addressDigest = ChannelVaultStorage.hashAddress(sender);
+        if (stored.memberMap.get(addressDigest).equals(0).toBoolean()) throw Error(`Address ${sender.toBase58()} is not a member of channel ${name}!`);
+
+        const { channel } = stored;
+        const channelWitness = this.channelMap.getWitness(channel.id);
+        const addressWitness = this.addressMap.getWitness(addressDigest);
+        const memberWitness = stored.memberMap.getWitness(addressDigest);
+        const messageWitness = stored.messageMap.getWitness(addressDigest);
+
+        const update: PendingChannelUpdate = { kind: 'message', id: channel.id, addressDigest, message };
+
+        return { channel, channelWitness, addressWitness, memberWitness, messageWitness, update };
+    }
+
+    /**
+     * Apply a pending update to the local maps.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingChannelUpdate) {
+        switch (update.kind) {
+            case 'address':
+                this.addressMap.set(update.addressDigest, Field(1));
+                break;
+            case 'createChannel':
+                this.setChannel({ channel: Channel.open(update.id), memberMap: new MerkleMap(), messageMap: new MerkleMap() });
+                break;
+            case 'closeChannel':
+                this.closeChannel(update.id);
+                break;
+            case 'member':
+                this.addMember(update.id, update.addressDigest);
+                break;
+            case 'message':
+                this.addMessage(update.id, update.addressDigest, update.message);
+                break;
+        }
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingChannelUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+
+    private getChannelById(id: Field) {
+        const stored = this.channels.get(id.toString());
+        if (stored === undefined) throw Error(`Channel ${id} does not exist!`);
+
+        return stored;
+    }
+
+    private setChannel(stored: ChannelStorage) {
+        this.channels.set(stored.channel.id.toString(), stored);
+        this.channelMap.set(stored.channel.id, stored.channel.hash());
+    }
+
+    private closeChannel(id: Field) {
+        const stored = this.getChannelById(id);
+        this.setChannel({ ...stored, channel: new Channel({ ...stored.channel, isOpen: Bool(false) }) });
+    }
+
+    private addMember(id: Field, addressDigest: Field) {
+        const stored = this.getChannelById(id);
+        stored.memberMap.set(addressDigest, Field(1));
+        this.setChannel({ ...stored, channel: new Channel({ ...stored.channel, memberRoot: stored.memberMap.getRoot() }) });
+    }
+
+    private addMessage(id: Field, addressDigest: Field, message: Field) {
+        const stored = this.getChannelById(id);
+        stored.messageMap.set(addressDigest, message);
+
+        const { channel } = stored;
+        this.setChannel({ ...stored, channel: new Channel({ ...channel, messageRoot: stored.messageMap.getRoot(), messageCount: channel.messageCount.add(1) }) });
+    }
+}
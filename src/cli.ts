@@ -0,0 +1,12 @@
+import { runCli } from './vault-cli.js';
+
+/*
+- usage: npm run vault -- [--alias <deployAlias>] [--config <configPath>] <command> [+ <command> ...]
+    --> e.g. npm run vault -- --alias local deploy + init + enroll <spyPublicKey> + submit <spyKeyPath> 100000 + status
+*/
+runCli(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error: Error) => {
+        console.error(error.message);
+        process.exit(1);
+    });
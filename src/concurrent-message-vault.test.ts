@@ -0,0 +1,244 @@
+import { 
+  ConcurrentMessageVault,
+  ConcurrentVaultStorage,
+  ActionTailProgram,
+  ReduceStep,
+} from './concurrent-message-vault';
+import { SpyMerkleWitness, MessageMerkleWitness } from './message-vault';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Concurrent Message Vault: Actions & Reducer Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: ConcurrentMessageVault,
+  storage: ConcurrentVaultStorage;
+
+  beforeAll(async () => {
+    // the action tail proofs are always generated
+    await ActionTailProgram.compile();
+    if (proofsEnabled) await ConcurrentMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 6).map((account) => account.privateKey);
+    
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new ConcurrentMessageVault(zkappAddress);
+
+    storage = new ConcurrentVaultStorage(zkapp);
+  });
+
+  async function buildMessageTxn(senderKey: PrivateKey, message: Field, addressIndex?: bigint) { 
+    // a non-enrolled sender claims the first index
+    const index = addressIndex ?? storage.getAddressIndex(senderKey.toPublicKey()) ?? 0n;
+
+    let messageTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.dispatchMessage(Field(index), message);
+    });
+
+    await messageTxn.prove();
+    return messageTxn.sign([senderKey]);
+  }
+
+  async function enroll(spyAddress: PublicKey) { 
+    let enrollTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.dispatchAddress(spyAddress);
+    });
+    await enrollTxn.prove();
+    await enrollTxn.sign([deployerKey]).send();
+  }
+
+  async function reduce() { 
+    let { endActionState, reduceSteps, tailProof, updates } = await storage.prepareReduce();
+
+    let reduceTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.reduce(endActionState, reduceSteps, tailProof);
+    });
+
+    await reduceTxn.prove();
+    await storage.applyWhenIncluded(await reduceTxn.sign([deployerKey]).send(), ...updates);
+  }
+
+  it('should deploy and initialize `ConcurrentMessageVault`', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    expect(zkapp.spyCount.get()).toEqual(Field(-1));
+  });
+
+  it('should reject dispatching an address for any sender except admin', async () => {
+    await expect(Mina.transaction(spyKeys[0].toPublicKey(), () => {
+      zkapp.dispatchAddress(spyKeys[0].toPublicKey());
+    })).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should fold dispatched enrollments into the address commitment', async () => {
+    for (const spyKey of spyKeys) await enroll(spyKey.toPublicKey());
+
+    // dispatching does not change the on-chain state before the reduce
+    expect(zkapp.spyCount.get()).toEqual(Field(-1));
+
+    await reduce();
+
+    expect(zkapp.spyCount.get()).toEqual(Field(4));
+    expect(storage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+    expect(storage.getAddressIndex(spyKeys[4].toPublicKey())).toEqual(4n);
+  });
+
+  it('should reject dispatching an invalid message', async () => {
+    const invalidMessage = Field(1234234324234234340_111000n);
+    await expect(buildMessageTxn(spyKeys[0], invalidMessage)).rejects.toThrowError('Invalid Message! Rule1 is violated!');
+  });
+
+  it('should accept messages from many submitters racing within a single block', async () => {
+    const message = Field(123423432423423434100000n);
+
+    // all transactions are built against the same on-chain state before any of them is sent
+    const messageTxns = [];
+    for (const spyKey of spyKeys) messageTxns.push(await buildMessageTxn(spyKey, message));
+
+    for (const messageTxn of messageTxns) await messageTxn.send();
+
+    await reduce();
+
+    expect(zkapp.messageCount.get()).toEqual(Field(5));
+    expect(storage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+    for (let i=0n; i<5n; i++) expect(storage.messageTree.getNode(0, i)).toEqual(message);
+  });
+
+  it('should reject conflicting submissions during the reduce instead of failing the sender transaction', async () => {
+    const messageCommitment = zkapp.messageCommitment.get();
+
+    // a spy that already sent a message and a non-enrolled sender both dispatch successfully
+    await (await buildMessageTxn(spyKeys[0], Field(1234234324234234340_011_000n))).send();
+    await (await buildMessageTxn(deployerKey, Field(1234234324234234340_011_000n))).send();
+
+    await reduce();
+
+    // both actions are skipped by the reducer
+    expect(zkapp.messageCount.get()).toEqual(Field(5));
+    expect(zkapp.messageCommitment.get()).toEqual(messageCommitment);
+    expect(zkapp.actionState.get()).toEqual(zkapp.account.actionState.get());
+  });
+
+  it('should reject a message dispatched by a sender that did not sign the transaction', async () => {
+    const spyAddress = spyKeys[0].toPublicKey();
+
+    // `this.sender` is a witness, a prover can claim the slot of another spy while paying the fee with its own key
+    Object.defineProperty(zkapp, 'sender', { get: () => spyAddress, configurable: true });
+    try {
+      const messageTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+        zkapp.dispatchMessage(Field(0), Field(100000));
+      });
+      await messageTxn.prove();
+      await expect(messageTxn.sign([deployerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+  });
+
+  it('should reject dispatching a message for an address index beyond the cap', async () => {
+    await expect(buildMessageTxn(spyKeys[0], Field(100000), 100n)).rejects.toThrowError('Address index is out of range!');
+  });
+
+  it('should reduce a backlog of more than 8 pending actions in chunks', async () => {
+    const newSpyKeys = Array.from({ length: 10 }, () => PrivateKey.random());
+    for (const spyKey of newSpyKeys) await enroll(spyKey.toPublicKey());
+
+    // the first reduce folds 8 enrollments and leaves the others pending
+    await reduce();
+
+    expect(zkapp.spyCount.get()).toEqual(Field(12));
+    expect(zkapp.actionState.get()).not.toEqual(zkapp.account.actionState.get());
+
+    await reduce();
+
+    expect(zkapp.spyCount.get()).toEqual(Field(14));
+    expect(storage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+    expect(storage.getAddressIndex(newSpyKeys[9].toPublicKey())).toEqual(14n);
+    expect(zkapp.actionState.get()).toEqual(zkapp.account.actionState.get());
+  });
+
+  it('should skip a message dispatched for the address index of another spy', async () => {
+    const messageCommitment = zkapp.messageCommitment.get();
+
+    // spy 0 claims the empty message slot of the spy enrolled at index 5
+    await (await buildMessageTxn(spyKeys[0], Field(100000), 5n)).send();
+
+    await reduce();
+
+    expect(zkapp.messageCount.get()).toEqual(Field(5));
+    expect(zkapp.messageCommitment.get()).toEqual(messageCommitment);
+  });
+
+  it('should skip a message checked at another index than the dispatched one', async () => {
+    const messageCommitment = zkapp.messageCommitment.get();
+
+    // the non-enrolled deployer dispatches for the first index, which is already full
+    await (await buildMessageTxn(deployerKey, Field(100000))).send();
+
+    // point the first reduce step to the empty slot at index 5 instead
+    const { endActionState, reduceSteps, tailProof } = await storage.prepareReduce();
+    reduceSteps.steps[0] = new ReduceStep({
+      addressWitness: new SpyMerkleWitness(storage.addressTree.getWitness(5n)),
+      addressLeaf: storage.addressTree.getNode(0, 5n),
+      messageWitness: new MessageMerkleWitness(storage.messageTree.getWitness(5n)),
+      messageLeaf: storage.messageTree.getNode(0, 5n),
+    });
+
+    let reduceTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.reduce(endActionState, reduceSteps, tailProof);
+    });
+    await reduceTxn.prove();
+    await reduceTxn.sign([deployerKey]).send();
+
+    expect(zkapp.messageCount.get()).toEqual(Field(5));
+    expect(zkapp.messageCommitment.get()).toEqual(messageCommitment);
+    expect(zkapp.actionState.get()).toEqual(zkapp.account.actionState.get());
+  });
+
+  it('should reject dispatching a message for an address index beyond the field range of the tree', async () => {
+    // Field(-1) is the largest field element, a plain comparison with the cap cannot be trusted for it
+    await expect(buildMessageTxn(spyKeys[0], Field(100000), -1n)).rejects.toThrow();
+  });
+
+  it('should reject a reduce with witnesses that are out of sync', async () => {
+    await (await buildMessageTxn(spyKeys[0], Field(100000))).send();
+
+    // tamper with the address leaf of the first reduce step
+    const { endActionState, reduceSteps, tailProof } = await storage.prepareReduce();
+    reduceSteps.steps[0].addressLeaf = Field(1);
+
+    await expect(Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.reduce(endActionState, reduceSteps, tailProof);
+    })).rejects.toThrowError('Reduce step has an out of sync address witness!');
+  });
+});
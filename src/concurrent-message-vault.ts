@@ -0,0 +1,411 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    Field,
+    Poseidon,
+    Struct,
+    Provable,
+    Reducer,
+    MerkleTree,
+    Mina,
+    AccountUpdate,
+    SelfProof,
+    ZkProgram,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { signedSenderDigest, requireAdmin } from './admin-set.js';
+import type { PendingLeafUpdate } from './vault-storage.js';
+import {
+    MessageVault,
+    SpyMerkleWitness,
+    MessageMerkleWitness,
+    emptyTreeRoot,
+    validateMessage,
+} from './message-vault.js';
+
+export {
+    ConcurrentMessageVault,
+    ConcurrentVaultStorage,
+    VaultAction,
+    VaultState,
+    ReduceStep,
+    ReduceSteps,
+    ActionTail,
+    ActionTailProgram,
+    ActionTailProof,
+    maxActionsPerReduce,
+}
+
+// maximum number of dispatched actions folded by a single `reduce` call
+const maxActionsPerReduce = 8;
+
+// same tree size and address cap as the default vault
+const { height, capacity } = MessageVault.config;
+
+// root of an empty address or message Merkle Tree
+const emptyRoot = emptyTreeRoot(height);
+
+/**
+ * An enrollment or a message dispatched to the vault.
+ *
+ * `kind` is 1 for an enrollment and 2 for a message; 0 is reserved for the
+ * empty action the reducer uses as padding. A message carries the address index
+ * claimed by its sender, an enrollment is always stored at the next free index.
+ */
+class VaultAction extends Struct({ kind: Field, addressDigest: Field, addressIndex: Field, message: Field }) {
+    static enrollment(addressDigest: Field) {
+        return new VaultAction({ kind: Field(1), addressDigest, addressIndex: Field(0), message: Field(0) });
+    }
+
+    static message(addressDigest: Field, addressIndex: Field, message: Field) {
+        return new VaultAction({ kind: Field(2), addressDigest, addressIndex, message });
+    }
+}
+
+class VaultState extends Struct({
+    addressCommitment: Field,
+    spyCount: Field,
+    messageCommitment: Field,
+    messageCount: Field,
+}) {}
+
+/**
+ * Witnesses of the leaves touched by one action, computed against the roots
+ * the previous actions of the same `reduce` call led to.
+ */
+class ReduceStep extends Struct({
+    addressWitness: SpyMerkleWitness,
+    addressLeaf: Field,
+    messageWitness: MessageMerkleWitness,
+    messageLeaf: Field,
+}) {}
+
+class ReduceSteps extends Struct({ steps: Provable.Array(ReduceStep, maxActionsPerReduce) }) {}
+
+/**
+ * Public input of an action tail proof: folding the action lists dispatched after
+ * `actionState` leads to `currentActionState`.
+ */
+class ActionTail extends Struct({ actionState: Field, currentActionState: Field }) {}
+
+/**
+ * Recursive proof that an action state is a prefix of a later one.
+ *
+ * - init: an empty tail, both action states are equal.
+ * - appendActions: extend a tail proof with the hash of one more action list.
+ *
+ * The network only keeps the latest action states of an account, so `reduce` cannot
+ * require the end of a chunk directly once more actions are pending.
+ */
+const ActionTailProgram = ZkProgram({
+    name: 'ConcurrentVaultActionTail',
+    publicInput: ActionTail,
+
+    methods: {
+        init: {
+            privateInputs: [],
+
+            method(tail: ActionTail) {
+                tail.currentActionState.assertEquals(tail.actionState);
+            },
+        },
+
+        appendActions: {
+            privateInputs: [SelfProof, Field],
+
+            method(tail: ActionTail, previousProof: SelfProof<ActionTail, void>, actionsHash: Field) {
+                previousProof.verify();
+
+                previousProof.publicInput.actionState.assertEquals(tail.actionState);
+                const currentActionState = AccountUpdate.Actions.updateSequenceState(previousProof.publicInput.currentActionState, actionsHash);
+                tail.currentActionState.assertEquals(currentActionState);
+            },
+        },
+    },
+});
+
+class ActionTailProof extends ZkProgram.Proof(ActionTailProgram) {}
+
+/**
+ * A message vault where enrollments and messages are dispatched as actions.
+ *
+ * Dispatching does not read the Merkle roots, so many spies can submit in the same block
+ * without invalidating each other. `reduce` then folds pending actions into `addressCommitment`,
+ * `messageCommitment`, `spyCount` and `messageCount`.
+ *
+ * Conflicting actions such as a second message from the same spy or an enrollment beyond the cap
+ * are skipped during the reduce instead of failing the sender's transaction. Pending actions are
+ * reduced in chunks of at most `maxActionsPerReduce`, so a backlog never blocks the vault.
+ */
+class ConcurrentMessageVault extends VaultContract {
+    @state(Field) adminAddress = State<Field>();
+
+    @state(Field) addressCommitment = State<Field>();
+    @state(Field) spyCount = State<Field>();
+
+    @state(Field) messageCommitment = State<Field>();
+    @state(Field) messageCount = State<Field>();
+
+    @state(Field) actionState = State<Field>();
+
+    reducer = Reducer({ actionType: VaultAction });
+
+    @method initVault() {
+        super.init();
+
+        // the admin is set as the zkapp initializer
+        this.adminAddress.set(signedSenderDigest(this.sender));
+
+        // set address commitment as the root of an empty Merkle Tree
+        this.addressCommitment.set(emptyRoot);
+        this.spyCount.set(Field(-1));
+
+        // set message commitment as the root of an empty Merkle Tree
+        this.messageCommitment.set(emptyRoot);
+        this.messageCount.set(Field(0));
+
+        this.actionState.set(Reducer.initialActionState);
+    }
+
+    @method dispatchAddress(spyAddress: PublicKey) {
+        // assert that only the admin is allowed to enroll addresses
+        requireAdmin(this.adminAddress, this.sender);
+
+        this.reducer.dispatch(VaultAction.enrollment(Poseidon.hash(spyAddress.toFields())));
+    }
+
+    /**
+     * Dispatch a message for the address index of the sender.
+     *
+     * The reduce stores the message at `addressIndex` only, a wrong index gets the message skipped.
+     */
+    @method dispatchMessage(addressIndex: Field, message: Field) {
+        // message validation does not depend on state so it is done at dispatch time
+        validateMessage(message);
+
+        /*
+        - the index is range-checked to the tree before it is compared to the cap
+            --> field comparisons are unsound on values above 253 bits, and the reduce could not build a witness for them
+        */
+        addressIndex.toBits(height - 1);
+        addressIndex.assertLessThan(capacity, 'Address index is out of range!');
+
+        // the sender signs so that nobody can dispatch a message in the slot of another spy
+        this.reducer.dispatch(VaultAction.message(signedSenderDigest(this.sender), addressIndex, message));
+    }
+
+    /**
+     * Fold the pending actions up to `endActionState` into the vault state.
+     *
+     * @param endActionState end of the chunk, at most `maxActionsPerReduce` action lists after the stored `actionState`
+     * @param tailProof proves that the on-chain action state follows `endActionState`
+     */
+    @method reduce(endActionState: Field, reduceSteps: ReduceSteps, tailProof: ActionTailProof) {
+        let actionState = this.actionState.getAndRequireEquals();
+
+        let initialState = new VaultState({
+            addressCommitment: this.addressCommitment.getAndRequireEquals(),
+            spyCount: this.spyCount.getAndRequireEquals(),
+            messageCommitment: this.messageCommitment.getAndRequireEquals(),
+            messageCount: this.messageCount.getAndRequireEquals(),
+        });
+
+        let pendingActions = this.reducer.getActions({ fromActionState: actionState, endActionState });
+
+        // the reducer calls `applyAction` exactly once per action slot, in order
+        let stepIndex = 0;
+        let { state: newState, actionState: newActionState } = this.reducer.reduce(
+            pendingActions,
+            VaultState,
+            (state: VaultState, action: VaultAction) => applyAction(state, action, reduceSteps.steps[stepIndex++]),
+            { state: initialState, actionState },
+            { maxTransactionsWithActions: maxActionsPerReduce, skipActionStatePrecondition: true },
+        );
+        newActionState.assertEquals(endActionState, 'Reduce steps do not end at the given action state!');
+
+        /*
+        - the chunk is only required to be followed by the on-chain action state
+            --> the prover cannot fold other actions, and actions beyond the chunk are left for the next reduce
+        */
+        tailProof.verify();
+        tailProof.publicInput.actionState.assertEquals(endActionState, 'Action tail proof does not start at the given action state!');
+        this.account.actionState.requireEquals(tailProof.publicInput.currentActionState);
+
+        this.addressCommitment.set(newState.addressCommitment);
+        this.spyCount.set(newState.spyCount);
+        this.messageCommitment.set(newState.messageCommitment);
+        this.messageCount.set(newState.messageCount);
+        this.actionState.set(newActionState);
+    }
+}
+
+function applyAction(state: VaultState, action: VaultAction, step: ReduceStep) {
+    const isEnrollment = action.kind.equals(1);
+    const isMessage = action.kind.equals(2);
+
+    const { addressWitness, addressLeaf, messageWitness, messageLeaf } = step;
+
+    /*
+    - the witnesses of an actual action must be valid against the current running roots
+        --> the reducer cannot forge a state transition, it can only apply or skip an action
+    */
+    const validAddressWitness = addressWitness.calculateRoot(addressLeaf).equals(state.addressCommitment);
+    isEnrollment.or(isMessage).not().or(validAddressWitness).assertTrue('Reduce step has an out of sync address witness!');
+
+    const validMessageWitness = messageWitness.calculateRoot(messageLeaf).equals(state.messageCommitment)
+        .and(messageWitness.calculateIndex().equals(addressWitness.calculateIndex()));
+    isMessage.not().or(validMessageWitness).assertTrue('Reduce step has an out of sync message witness!');
+
+    // an enrollment is stored at `spyCount + 1` unless the address cap is reached
+    const incrementedCount = state.spyCount.add(1);
+    const belowCap = incrementedCount.lessThan(capacity);
+    isEnrollment.and(belowCap).not()
+        .or(addressWitness.calculateIndex().equals(incrementedCount))
+        .assertTrue('Reduce step has a non-compliant address index!');
+    const acceptEnrollment = isEnrollment.and(belowCap).and(addressLeaf.equals(0));
+
+    /*
+    - a message is stored if the sender is enrolled at the dispatched index and did not send a message yet
+        --> a step at another index is skipped like any other conflict, so no action can block the reduce
+    */
+    const acceptMessage = isMessage
+        .and(messageWitness.calculateIndex().equals(action.addressIndex))
+        .and(addressLeaf.equals(action.addressDigest))
+        .and(messageLeaf.equals(0));
+
+    return new VaultState({
+        addressCommitment: Provable.if(acceptEnrollment, addressWitness.calculateRoot(action.addressDigest), state.addressCommitment),
+        spyCount: Provable.if(acceptEnrollment, incrementedCount, state.spyCount),
+        messageCommitment: Provable.if(acceptMessage, messageWitness.calculateRoot(action.message), state.messageCommitment),
+        messageCount: Provable.if(acceptMessage, state.messageCount.add(1), state.messageCount),
+    });
+}
+
+/**
+ * Off-chain storage client of a `ConcurrentMessageVault`.
+ *
+ * It replays pending actions with the same rules as the on-chain reducer to build the
+ * `ReduceSteps`, and only applies the resulting leaves once the reduce transaction is confirmed.
+ */
+class ConcurrentVaultStorage {
+    readonly addressTree: MerkleTree;
+    readonly messageTree: MerkleTree;
+    private addressIndexMap: Map<string, bigint>;
+
+    constructor(public zkapp: ConcurrentMessageVault) {
+        this.addressTree = new MerkleTree(height);
+        this.messageTree = new MerkleTree(height);
+        this.addressIndexMap = new Map<string, bigint>();
+    }
+
+    getAddressIndex(address: PublicKey) {
+        return this.addressIndexMap.get(Poseidon.hash(address.toFields()).toString());
+    }
+
+    /**
+     * Build the witnesses for folding the next chunk of actions pending since the on-chain `actionState`,
+     * and prove the tail of the actions left for the following reduce.
+     *
+     * The ZkProgram `ActionTailProgram` must be compiled before calling this method.
+     */
+    async prepareReduce() {
+        if (!this.addressTree.getRoot().equals(this.zkapp.addressCommitment.get()).toBoolean()) {
+            throw Error('Local address Merkle Tree has drifted from the on-chain addressCommitment!');
+        }
+
+        if (!this.messageTree.getRoot().equals(this.zkapp.messageCommitment.get()).toBoolean()) {
+            throw Error('Local message Merkle Tree has drifted from the on-chain messageCommitment!');
+        }
+
+        const pendingActions = this.zkapp.reducer.getActions({ fromActionState: this.zkapp.actionState.get() });
+        const chunk = pendingActions.slice(0, maxActionsPerReduce);
+        const actionsHashes = pendingActions.map((actions) => AccountUpdate.Actions.hash(actions.map((action) => VaultAction.toFields(action))));
+
+        let endActionState = this.zkapp.actionState.get();
+        for (const actionsHash of actionsHashes.slice(0, chunk.length)) {
+            endActionState = AccountUpdate.Actions.updateSequenceState(endActionState, actionsHash);
+        }
+
+        // next free address index, `spyCount` starts at Field(-1)
+        let nextIndex = this.zkapp.spyCount.get().add(1).toBigInt();
+
+        // leaves set while replaying, applied only after the reduce transaction is confirmed
+        const updates: PendingLeafUpdate[] = [];
+        const setLeaf = (update: PendingLeafUpdate) => {
+            updates.push(update);
+            this.treeOf(update).setLeaf(update.index, update.value);
+        }
+
+        const steps: ReduceStep[] = [];
+        try {
+            for (const action of chunk.flat()) {
+                const isEnrollment = action.kind.equals(1).toBoolean();
+                const index = isEnrollment ? nextIndex : action.addressIndex.toBigInt();
+
+                steps.push(this.buildStep(index));
+
+                if (isEnrollment && index < BigInt(capacity)) {
+                    setLeaf({ tree: 'address', index, value: action.addressDigest });
+                    nextIndex = index + 1n;
+                } else if (!isEnrollment) {
+                    const isEnrolled = this.addressTree.getNode(0, index).equals(action.addressDigest).toBoolean();
+                    const isEmpty = this.messageTree.getNode(0, index).equals(0).toBoolean();
+                    if (isEnrolled && isEmpty) setLeaf({ tree: 'message', index, value: action.message });
+                }
+            }
+        } finally {
+            // revert the replayed leaves until the reduce transaction is confirmed
+            for (const update of [...updates].reverse()) this.treeOf(update).setLeaf(update.index, Field(0));
+        }
+
+        // pad with steps for the empty action slots
+        while (steps.length < maxActionsPerReduce) steps.push(this.buildStep(0n));
+
+        // prove that the actions left after the chunk lead to the on-chain action state
+        let currentActionState = endActionState;
+        let tailProof = await ActionTailProgram.init(new ActionTail({ actionState: endActionState, currentActionState }));
+        for (const actionsHash of actionsHashes.slice(chunk.length)) {
+            currentActionState = AccountUpdate.Actions.updateSequenceState(currentActionState, actionsHash);
+            tailProof = await ActionTailProgram.appendActions(new ActionTail({ actionState: endActionState, currentActionState }), tailProof, actionsHash);
+        }
+
+        return { endActionState, reduceSteps: new ReduceSteps({ steps }), tailProof, updates };
+    }
+
+    /**
+     * Apply a pending leaf update to the local trees.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingLeafUpdate) {
+        this.treeOf(update).setLeaf(update.index, update.value);
+        if (update.tree === 'address') this.addressIndexMap.set(update.value.toString(), update.index);
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingLeafUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+
+    private treeOf(update: PendingLeafUpdate) {
+        return update.tree === 'address' ? this.addressTree : this.messageTree;
+    }
+
+    private buildStep(index: bigint) {
+        return new ReduceStep({
+            addressWitness: new SpyMerkleWitness(this.addressTree.getWitness(index)),
+            addressLeaf: this.addressTree.getNode(0, index),
+            messageWitness: new MessageMerkleWitness(this.messageTree.getWitness(index)),
+            messageLeaf: this.messageTree.getNode(0, index),
+        });
+    }
+}
@@ -0,0 +1,59 @@
+import { MessageVault } from './message-vault';
+import {
+  ConstraintReport,
+  constraintReport,
+  formatConstraintReport,
+} from './constraint-report';
+
+// rows allowed per method, raise a budget only together with the change that justifies it
+const constraintBudgets: ConstraintReport = {
+  initVault: 700,
+  setPhases: 900,
+  setPhasesWithApprovals: 18500,
+  setReward: 850,
+  setRewardWithApprovals: 18600,
+  storeAddress: 1700,
+  storeAddressWithApprovals: 19500,
+  transferAdmin: 750,
+  transferAdminWithApprovals: 18400,
+  enableMultiAdmin: 7600,
+  updateAdminSet: 25200,
+  checkAndStoreMessage: 1650,
+  checkAndStoreMessageWithPayout: 2300,
+  relayMessage: 5000,
+  checkAndStoreVaultMessage: 2450,
+  checkAndStoreEncryptedMessage: 4000,
+  commitMessage: 2000,
+  revealMessage: 1500,
+  storeMessageBatch: 2250,
+  revokeAddress: 1500,
+  revokeAddressWithApprovals: 19100,
+  rotateAddress: 1700,
+  rotateAddressWithApprovals: 19400,
+};
+
+describe('Constraint report tests', () => {
+  let report: ConstraintReport;
+
+  beforeAll(() => {
+    report = constraintReport(MessageVault);
+  });
+
+  it('should count the rows of every vault method', () => {
+    expect(Object.keys(report).sort()).toEqual(Object.keys(constraintBudgets).sort());
+    for (const rows of Object.values(report)) expect(rows).toBeGreaterThan(0);
+  });
+
+  it('should keep every vault method within its constraint budget', () => {
+    for (const [name, rows] of Object.entries(report)) {
+      expect({ name, rows, withinBudget: rows <= constraintBudgets[name] }).toEqual({ name, rows, withinBudget: true });
+    }
+  });
+
+  it('should format one line per method, the most expensive first', () => {
+    const lines = formatConstraintReport(report).split('\n');
+
+    expect(lines.length).toEqual(Object.keys(report).length);
+    expect(lines[0]).toMatch(/^updateAdminSet\s+\d+$/);
+  });
+});
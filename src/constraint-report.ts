@@ -0,0 +1,39 @@
+import { SmartContract } from 'o1js';
+import { MessageVault } from './message-vault.js';
+
+export {
+    ConstraintReport,
+    constraintReport,
+    formatConstraintReport,
+}
+
+/**
+ * Number of constraint rows of each method of a contract, by method name.
+ */
+type ConstraintReport = Record<string, number>;
+
+/**
+ * Count the constraint rows of every method of a vault with `analyzeMethods`, no compilation needed.
+ *
+ * The proving time of a method grows with its rows, so the report is a cheap way to catch a costly change.
+ */
+function constraintReport(zkappClass: typeof SmartContract = MessageVault): ConstraintReport {
+    const methods = zkappClass.analyzeMethods();
+
+    const report: ConstraintReport = {};
+    for (const [name, { rows }] of Object.entries(methods)) report[name] = rows;
+
+    return report;
+}
+
+/**
+ * One line per method, the most expensive first.
+ */
+function formatConstraintReport(report: ConstraintReport) {
+    const width = Math.max(...Object.keys(report).map((name) => name.length));
+
+    return Object.entries(report)
+        .sort(([, rowsA], [, rowsB]) => rowsB - rowsA)
+        .map(([name, rows]) => `${name.padEnd(width)}  ${rows}`)
+        .join('\n');
+}
@@ -0,0 +1,51 @@
+import { validateMessage, createMessageVault } from './message-vault';
+import { VaultMessage } from './message-codec';
+import {
+  maxTally,
+  flagTalliesIncrement,
+  unpackFlagTallies,
+  countFlagTallies,
+} from './flag-tallies';
+import { Field } from 'o1js';
+
+describe('Flag tallies tests', () => {
+  const messages = [
+    1234234324234234340_100000n,
+    1234234324234234340_011100n,
+    1234234324234234340_011000n,
+    1234234324234234340_001010n,
+    1234234324234234340_000011n,
+    1234234324234234340_000000n,
+    1234234324234234340_001100n,
+  ];
+
+  it('return the decoded flags from validateMessage', () => {
+    const flags = validateMessage(Field(1234234324234234340_011100n)).map((flag) => flag.toBoolean());
+    expect(flags).toEqual([false, true, true, true, false, false]);
+  });
+
+  it('pack the tallies of validated messages', () => {
+    let packedTallies = Field(0);
+    for (const message of messages) {
+      packedTallies = packedTallies.add(flagTalliesIncrement(validateMessage(Field(message))));
+    }
+
+    const messagesFlags = messages.map((message) => VaultMessage.decode(Field(message)).flags.toArray().map((flag) => flag.toBoolean()));
+
+    expect(unpackFlagTallies(packedTallies)).toEqual(countFlagTallies(messagesFlags));
+    expect(unpackFlagTallies(packedTallies)).toEqual({ flag1: 1n, flag2: 2n, flag3: 4n, flag4: 2n, flag5: 2n, flag6: 1n });
+  });
+
+  it('keep a full tally from spilling over the next flag', () => {
+    const flag1Increment = flagTalliesIncrement(VaultMessage.fromFlags(0n, { flag1: true }).flags.toArray());
+    const flag2Increment = flagTalliesIncrement(VaultMessage.fromFlags(0n, { flag2: true }).flags.toArray());
+
+    const packedTallies = flag1Increment.mul(maxTally).add(flag2Increment);
+    expect(unpackFlagTallies(packedTallies)).toEqual({ flag1: BigInt(maxTally), flag2: 1n, flag3: 0n, flag4: 0n, flag5: 0n, flag6: 0n });
+  });
+
+  it('reject a vault capacity that could overflow a tally', () => {
+    const expectedErrorMessage = `Invalid vault config! The capacity cannot exceed ${maxTally} so that the flag tallies cannot overflow!`;
+    expect(() => createMessageVault({ height: 50, capacity: maxTally + 1 })).toThrowError(expectedErrorMessage);
+  });
+});
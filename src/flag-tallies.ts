@@ -0,0 +1,63 @@
+import { Bool, Field } from 'o1js';
+import { FlagName, flagNames } from './message-rules.js';
+
+export {
+    FlagTallies,
+    tallyBits,
+    maxTally,
+    flagTalliesIncrement,
+    unpackFlagTallies,
+    countFlagTallies,
+}
+
+// size in bits of each packed tally, the six tallies leave room for the vault settings in the same field
+const tallyBits = 20;
+
+// a vault capacity above this bound could overflow a tally into the next one
+const maxTally = 2 ** tallyBits - 1;
+
+/**
+ * Number of stored messages that raised each flag.
+ */
+type FlagTallies = Record<FlagName, bigint>;
+
+/*
+- the six tallies are packed into a single field, flag1 in the lowest bits
+    --> a message increments the packed tallies by the sum of `2^(tallyBits * i)` over its raised flags
+    --> a tally never exceeds the message count, so it cannot overflow as long as the capacity stays below `maxTally`
+*/
+function flagTalliesIncrement(flags: Bool[]) {
+    let increment = Field(0);
+    for (const [i, flag] of flags.entries()) {
+        increment = increment.add(flag.toField().mul(2n ** BigInt(tallyBits * i)));
+    }
+
+    return increment;
+}
+
+/**
+ * Read the six tallies of a `packedState` state.
+ */
+function unpackFlagTallies(packedTallies: Field): FlagTallies {
+    const packed = packedTallies.toBigInt();
+    const mask = 2n ** BigInt(tallyBits) - 1n;
+
+    const tallies = {} as FlagTallies;
+    for (const [i, name] of flagNames.entries()) {
+        tallies[name] = (packed >> BigInt(tallyBits * i)) & mask;
+    }
+
+    return tallies;
+}
+
+/**
+ * Plain TypeScript tallies of a list of messages given as flags ordered from flag1 to flag6.
+ */
+function countFlagTallies(messagesFlags: boolean[][]): FlagTallies {
+    const tallies = {} as FlagTallies;
+    for (const [i, name] of flagNames.entries()) {
+        tallies[name] = BigInt(messagesFlags.filter((flags) => flags[i]).length);
+    }
+
+    return tallies;
+}
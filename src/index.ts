@@ -1,3 +1,71 @@
-import { MessageVault } from './message-vault.js';
+import { MessageVault, VaultConfig, createMessageVault, relayMessagePayload, committedMessageLeaf } from './message-vault.js';
+import { VaultStorage, VaultSnapshot, RelayedMessage, PendingCommitment } from './vault-storage.js';
+import { AdminSet, AdminApprovals } from './admin-set.js';
+import { MessageRule, defaultMessageRules, checkMessageRules } from './message-rules.js';
+import { MessageFlags, VaultMessage } from './message-codec.js';
+import { MessagePayload, EncryptedMessage, decryptMessage } from './message-encryption.js';
+import { MessageBatch, batchMessagePayload } from './message-batch.js';
+import { FlagTallies, unpackFlagTallies } from './flag-tallies.js';
+import { VaultPhases } from './vault-phases.js';
+import { UpgradePolicy, vaultPermissions, VaultContract } from './vault-permissions.js';
+import { MessageStatus, MessageStatusRegistry, createMessageStatusRegistry, MessageStatusStorage, verifyMessageStatus } from './message-status.js';
+import { MessageReceipt, verifyMessageReceipt, verifyMessageReceiptOnChain } from './message-receipt.js';
+import { ConstraintReport, constraintReport, formatConstraintReport } from './constraint-report.js';
+import { AnonymousMessageVault, AnonymousVaultStorage } from './anonymous-message-vault.js';
+import { ConcurrentMessageVault, ConcurrentVaultStorage } from './concurrent-message-vault.js';
+import { KeyedMessageVault, KeyedVaultStorage } from './keyed-message-vault.js';
+import { SequencedMessageVault, SequencedVaultStorage } from './sequenced-message-vault.js';
+import { ChannelMessageVault, ChannelVaultStorage, Channel, channelId } from './channel-message-vault.js';
 
-export { MessageVault };
+export { 
+    MessageVault, 
+    VaultConfig,
+    createMessageVault,
+    relayMessagePayload,
+    committedMessageLeaf,
+    VaultStorage, 
+    VaultSnapshot,
+    RelayedMessage,
+    PendingCommitment,
+    AdminSet,
+    AdminApprovals,
+    MessageRule,
+    defaultMessageRules,
+    checkMessageRules,
+    MessageFlags,
+    VaultMessage,
+    MessagePayload,
+    EncryptedMessage,
+    decryptMessage,
+    MessageBatch,
+    batchMessagePayload,
+    FlagTallies,
+    unpackFlagTallies,
+    VaultPhases,
+    UpgradePolicy,
+    vaultPermissions,
+    VaultContract,
+    MessageStatus,
+    MessageStatusRegistry,
+    createMessageStatusRegistry,
+    MessageStatusStorage,
+    verifyMessageStatus,
+    MessageReceipt,
+    verifyMessageReceipt,
+    verifyMessageReceiptOnChain,
+    ConstraintReport,
+    constraintReport,
+    formatConstraintReport,
+    AnonymousMessageVault, 
+    AnonymousVaultStorage,
+    ConcurrentMessageVault,
+    ConcurrentVaultStorage,
+    KeyedMessageVault,
+    KeyedVaultStorage,
+    SequencedMessageVault,
+    SequencedVaultStorage,
+    ChannelMessageVault,
+    ChannelVaultStorage,
+    Channel,
+    channelId,
+};
@@ -0,0 +1,211 @@
+import {
+  KeyedMessageVault,
+  KeyedVaultStorage,
+} from './keyed-message-vault';
+import {
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Keyed Message Vault: Order-Independent Enrollment Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  intruderKey: PrivateKey,
+  zkappKeys: PrivateKey[],
+  zkapps: KeyedMessageVault[],
+  storages: KeyedVaultStorage[];
+
+  beforeAll(async () => {
+    if (proofsEnabled) await KeyedMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 5).map((account) => account.privateKey);
+    intruderKey = Local.testAccounts[5].privateKey;
+
+    // two vaults enrolling the same spies in different orders
+    zkappKeys = [PrivateKey.random(), PrivateKey.random()];
+    zkapps = zkappKeys.map((key) => new KeyedMessageVault(key.toPublicKey()));
+    storages = zkapps.map((zkapp) => new KeyedVaultStorage(zkapp));
+  });
+
+  async function deployAndInitVault(vaultIndex: number) {
+    const zkapp = zkapps[vaultIndex];
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappKeys[vaultIndex]]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+  }
+
+  async function storeAddress(vaultIndex: number, spyAddress: PublicKey) {
+    let { witness, update } = storages[vaultIndex].prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapps[vaultIndex].storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storages[vaultIndex].applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(vaultIndex: number, spyKey: PrivateKey, message: Field) {
+    let senderAddress = spyKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storages[vaultIndex].prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapps[vaultIndex].checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await storages[vaultIndex].applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy and initialize two keyed vaults', async () => {
+    await deployAndInitVault(0);
+    await deployAndInitVault(1);
+
+    for (const zkapp of zkapps) {
+      expect(zkapp.spyCount.get()).toEqual(Field(0));
+      expect(zkapp.messageCount.get()).toEqual(Field(0));
+    }
+    expect(zkapps[0].addressRoot.get()).toEqual(zkapps[1].addressRoot.get());
+  });
+
+  it('should reject a second initialization of the vault', async () => {
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapps[0].initVault();
+    });
+    await initTxn.prove();
+
+    await expect(initTxn.sign([deployerKey]).send()).rejects.toThrowError('Account_proved_state_precondition_unsatisfied');
+  });
+
+  it('should reach the same address root whatever the enrollment order', async () => {
+    for (const spyKey of spyKeys) await storeAddress(0, spyKey.toPublicKey());
+    for (const spyKey of [...spyKeys].reverse()) await storeAddress(1, spyKey.toPublicKey());
+
+    expect(zkapps[0].spyCount.get()).toEqual(Field(4));
+    expect(zkapps[1].spyCount.get()).toEqual(Field(4));
+    expect(zkapps[0].addressRoot.get()).toEqual(zkapps[1].addressRoot.get());
+  });
+
+  it('should reject tx for any sender except the admin to store an address', async () => {
+    const spyAddress = PrivateKey.random().toPublicKey();
+    const { witness } = storages[0].prepareStoreAddress(spyAddress);
+
+    await expect(Mina.transaction(spyKeys[0].toPublicKey(), () => {
+      zkapps[0].storeAddress(spyAddress, witness);
+    })).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should reject a duplicate enrollment', async () => {
+    const spyAddress = spyKeys[0].toPublicKey();
+    expect(() => storages[0].prepareStoreAddress(spyAddress)).toThrowError('is already enrolled!');
+
+    // a witness of the enrolled key proves a non-empty leaf
+    const witness = storages[0].addressMap.getWitness(KeyedVaultStorage.hashAddress(spyAddress));
+    await expect(Mina.transaction(deployerAccount, () => {
+      zkapps[0].storeAddress(spyAddress, witness);
+    })).rejects.toThrowError('Address is already enrolled or off-chain address merkle map is out of sync!');
+  });
+
+  it('should reject a witness for another key than the spy address', async () => {
+    const spyAddress = PrivateKey.random().toPublicKey();
+    const { witness } = storages[0].prepareStoreAddress(PrivateKey.random().toPublicKey());
+
+    await expect(Mina.transaction(deployerAccount, () => {
+      zkapps[0].storeAddress(spyAddress, witness);
+    })).rejects.toThrowError('Address witness does not match the spy address!');
+  });
+
+  it('should reject a message for the key of a spy that did not sign the transaction', async () => {
+    const spyAddress = spyKeys[0].toPublicKey();
+    const { addressWitness, messageWitness } = storages[0].prepareStoreMessage(spyAddress, Field(100000));
+
+    // `this.sender` is a witness, a prover can claim the key of another spy while paying the fee with its own key
+    Object.defineProperty(zkapps[0], 'sender', { get: () => spyAddress, configurable: true });
+    try {
+      const messageTxn = await Mina.transaction(intruderKey.toPublicKey(), () => {
+        zkapps[0].checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+      });
+      await messageTxn.prove();
+      await expect(messageTxn.sign([intruderKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapps[0] as { sender?: PublicKey }).sender;
+    }
+
+    expect(zkapps[0].messageCount.get()).toEqual(Field(0));
+  });
+
+  it('should store messages in any order', async () => {
+    const messages = [Field(100000), Field(123423432423423434100000n), Field(1234234324234234340_011_000n), Field(1234234324234234340_011_100n)];
+
+    for (const [i, spyKey] of spyKeys.entries()) await storeMessage(0, spyKey, messages[i]);
+    for (const [i, spyKey] of [...spyKeys.entries()].reverse()) await storeMessage(1, spyKey, messages[i]);
+
+    expect(zkapps[0].messageCount.get()).toEqual(Field(4));
+    expect(zkapps[0].messageRoot.get()).toEqual(zkapps[1].messageRoot.get());
+    expect(storages[0].getMessage(spyKeys[1].toPublicKey())).toEqual(messages[1]);
+  });
+
+  it('should reject a second message from the same address', async () => {
+    const senderAddress = spyKeys[0].toPublicKey();
+    expect(() => storages[0].prepareStoreMessage(senderAddress, Field(100000))).toThrowError('has already stored a message!');
+
+    const addressDigest = KeyedVaultStorage.hashAddress(senderAddress);
+    const addressWitness = storages[0].addressMap.getWitness(addressDigest);
+    const messageWitness = storages[0].messageMap.getWitness(addressDigest);
+
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapps[0].checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+    })).rejects.toThrowError('Message is already stored or off-chain message merkle map is out of sync!');
+  });
+
+  it('should reject a message from an address that is not enrolled', async () => {
+    const addressDigest = KeyedVaultStorage.hashAddress(intruderKey.toPublicKey());
+    const addressWitness = storages[0].addressMap.getWitness(addressDigest);
+    const messageWitness = storages[0].messageMap.getWitness(addressDigest);
+
+    await expect(Mina.transaction(intruderKey.toPublicKey(), () => {
+      zkapps[0].checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+    })).rejects.toThrowError('Your account is not eligible to send a message!');
+  });
+
+  it('should rebuild the off-chain storage from events', async () => {
+    const rebuiltStorage = await KeyedVaultStorage.fromEvents(zkapps[1]);
+
+    expect(rebuiltStorage.addressMap.getRoot()).toEqual(zkapps[1].addressRoot.get());
+    expect(rebuiltStorage.messageMap.getRoot()).toEqual(zkapps[1].messageRoot.get());
+    expect(rebuiltStorage.isEnrolled(spyKeys[2].toPublicKey())).toEqual(true);
+  });
+
+  it('should reject any address after the storage cap of 100', async () => {
+    // 4 addresses are already enrolled
+    for (let i = 0; i < 96; i++) await storeAddress(0, PrivateKey.random().toPublicKey());
+    expect(zkapps[0].spyCount.get()).toEqual(Field(100));
+
+    await expect(storeAddress(0, PrivateKey.random().toPublicKey())).rejects.toThrowError('Reached maximum storage cap of 100 addresses!');
+  });
+});
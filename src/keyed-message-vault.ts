@@ -0,0 +1,246 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    Field,
+    Poseidon,
+    Struct,
+    MerkleMap,
+    MerkleMapWitness,
+    Mina,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { signedSenderDigest, requireAdmin } from './admin-set.js';
+import type { PendingKeyUpdate } from './vault-storage.js';
+import { MessageVault, validateMessage } from './message-vault.js';
+
+export {
+    KeyedMessageVault,
+    KeyedVaultStorage,
+    KeyedMessageStoredEvent,
+}
+
+class KeyedMessageStoredEvent extends Struct({ addressDigest: Field, message: Field }) {}
+
+// same address cap as the default vault
+const { capacity } = MessageVault.config;
+
+// root of an empty address or message Merkle Map
+const emptyMapRoot = new MerkleMap().getRoot();
+
+// value of an enrolled address in the address Merkle Map, an empty key holds Field(0)
+const enrolledValue = Field(1);
+
+/**
+ * A message vault where addresses and messages are keyed by the address digest in Merkle Maps.
+ *
+ * There is no storage index to keep in sync with `spyCount`: membership, duplicate enrollment and
+ * the one-message-per-address rule only depend on the key, so enrollments and messages can
+ * arrive in any order. `spyCount` only enforces the address cap of the default vault.
+ */
+class KeyedMessageVault extends VaultContract {
+    @state(Field) adminAddress = State<Field>();
+
+    @state(Field) addressRoot = State<Field>();
+    @state(Field) spyCount = State<Field>();
+
+    @state(Field) messageRoot = State<Field>();
+    @state(Field) messageCount = State<Field>();
+
+    events = {
+        "Successfully stored an address": Field,
+        "Successfully stored a message": KeyedMessageStoredEvent,
+    }
+
+    @method initVault() {
+        super.init();
+
+        // the admin is set as the zkapp initializer
+        this.adminAddress.set(signedSenderDigest(this.sender));
+
+        // set address and message roots as the root of an empty Merkle Map
+        this.addressRoot.set(emptyMapRoot);
+        this.spyCount.set(Field(0));
+
+        this.messageRoot.set(emptyMapRoot);
+        this.messageCount.set(Field(0));
+    }
+
+    /**
+     * Enroll an address at the key of its digest.
+     * @param spyAddress
+     * @param addressWitness Merkle Map witness of the address digest
+     */
+    @method storeAddress(spyAddress: PublicKey, addressWitness: MerkleMapWitness) {
+        // assert that only the admin is allowed to store addresses
+        requireAdmin(this.adminAddress, this.sender);
+
+        // the counter only enforces the cap, it is not tied to any key
+        const incrementedCount = this.spyCount.getAndRequireEquals().add(1);
+        incrementedCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+
+        const addressDigest = Poseidon.hash(spyAddress.toFields());
+
+        /*
+        1. check that the key of the address is empty
+            --> an address cannot be enrolled twice
+        2. check that the off-chain address storage is in sync
+        */
+        const [currentRoot, key] = addressWitness.computeRootAndKey(Field(0));
+        key.assertEquals(addressDigest, 'Address witness does not match the spy address!');
+        this.addressRoot.getAndRequireEquals().assertEquals(currentRoot, 'Address is already enrolled or off-chain address merkle map is out of sync!');
+
+        const [updatedRoot] = addressWitness.computeRootAndKey(enrolledValue);
+        this.addressRoot.set(updatedRoot);
+        this.spyCount.set(incrementedCount);
+
+        this.emitEvent("Successfully stored an address", addressDigest);
+    }
+
+    /**
+     * Store a message at the key of the sender address digest.
+     * @param addressWitness Merkle Map witness of the sender address digest in the address map
+     * @param message
+     * @param messageWitness Merkle Map witness of the sender address digest in the message map
+     */
+    @method checkAndStoreMessage(addressWitness: MerkleMapWitness, message: Field, messageWitness: MerkleMapWitness) {
+        // the sender signs so that nobody can spend the message key of another spy
+        const senderAddressDigest = signedSenderDigest(this.sender);
+
+        // check that the sender is enrolled
+        const [addressRoot, addressKey] = addressWitness.computeRootAndKey(enrolledValue);
+        addressKey.assertEquals(senderAddressDigest, 'Your account is not eligible to send a message!');
+        this.addressRoot.getAndRequireEquals().assertEquals(addressRoot, 'Your account is not eligible to send a message!');
+
+        /*
+        1. check that the sender has not stored a message yet
+            --> one message per address, whatever the order of the messages
+        2. check that the off-chain message storage is in sync
+        */
+        const [currentRoot, messageKey] = messageWitness.computeRootAndKey(Field(0));
+        messageKey.assertEquals(senderAddressDigest, 'Message witness does not match the sender address!');
+        this.messageRoot.getAndRequireEquals().assertEquals(currentRoot, 'Message is already stored or off-chain message merkle map is out of sync!');
+
+        // an empty message cannot be told apart from an empty key
+        message.assertNotEquals(0, 'Cannot store an empty message!');
+        validateMessage(message);
+
+        const [updatedRoot] = messageWitness.computeRootAndKey(message);
+        this.messageRoot.set(updatedRoot);
+
+        // the message count is bounded by the number of enrolled addresses
+        this.messageCount.set(this.messageCount.getAndRequireEquals().add(1));
+
+        this.emitEvent("Successfully stored a message", new KeyedMessageStoredEvent({ addressDigest: senderAddressDigest, message }));
+    }
+}
+
+/**
+ * Off-chain storage client of a `KeyedMessageVault`.
+ *
+ * The maps are looked up by address digest, so there is no address index map to keep alongside them.
+ */
+class KeyedVaultStorage {
+    readonly addressMap: MerkleMap;
+    readonly messageMap: MerkleMap;
+
+    constructor(public zkapp: KeyedMessageVault) {
+        this.addressMap = new MerkleMap();
+        this.messageMap = new MerkleMap();
+    }
+
+    static hashAddress(address: PublicKey) {
+        return Poseidon.hash(address.toFields());
+    }
+
+    /**
+     * Rebuild the off-chain storage of a vault by replaying its on-chain events.
+     *
+     * Throws if the rebuilt roots do not match the on-chain roots.
+     */
+    static async fromEvents(zkapp: KeyedMessageVault) {
+        const storage = new KeyedVaultStorage(zkapp);
+        const events = await zkapp.fetchEvents();
+
+        for (const { type, event } of events) {
+            if (type === "Successfully stored an address") {
+                storage.applyUpdate({ map: 'address', key: event.data as unknown as Field, value: enrolledValue });
+            } else if (type === "Successfully stored a message") {
+                const { addressDigest, message } = event.data as unknown as KeyedMessageStoredEvent;
+                storage.applyUpdate({ map: 'message', key: addressDigest, value: message });
+            }
+        }
+
+        storage.assertSync();
+
+        return storage;
+    }
+
+    assertSync() {
+        if (!this.addressMap.getRoot().equals(this.zkapp.addressRoot.get()).toBoolean()) {
+            throw Error('Local address Merkle Map has drifted from the on-chain addressRoot!');
+        }
+
+        if (!this.messageMap.getRoot().equals(this.zkapp.messageRoot.get()).toBoolean()) {
+            throw Error('Local message Merkle Map has drifted from the on-chain messageRoot!');
+        }
+    }
+
+    isEnrolled(address: PublicKey) {
+        return this.addressMap.get(KeyedVaultStorage.hashAddress(address)).equals(enrolledValue).toBoolean();
+    }
+
+    getMessage(address: PublicKey) {
+        return this.messageMap.get(KeyedVaultStorage.hashAddress(address));
+    }
+
+    prepareStoreAddress(spyAddress: PublicKey) {
+        this.assertSync();
+
+        if (this.isEnrolled(spyAddress)) throw Error(`Address ${spyAddress.toBase58()} is already enrolled!`);
+
+        const addressDigest = KeyedVaultStorage.hashAddress(spyAddress);
+        const witness = this.addressMap.getWitness(addressDigest);
+
+        const update: PendingKeyUpdate = { map: 'address', key: addressDigest, value: enrolledValue };
+
+        return { witness, update };
+    }
+
+    prepareStoreMessage(sender: PublicKey, message: Field) {
+        this.assertSync();
+
+        if (!this.isEnrolled(sender)) throw Error(`Address ${sender.toBase58()} is not stored in the vault!`);
+        if (!this.getMessage(sender).equals(0).toBoolean()) throw Error(`Address ${sender.toBase58()} has already stored a message!`);
+
+        const addressDigest = KeyedVaultStorage.hashAddress(sender);
+        const addressWitness = this.addressMap.getWitness(addressDigest);
+        const messageWitness = this.messageMap.getWitness(addressDigest);
+
+        const update: PendingKeyUpdate = { map: 'message', key: addressDigest, value: message };
+
+        return { addressWitness, messageWitness, update };
+    }
+
+    /**
+     * Apply a pending update to the local maps.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingKeyUpdate) {
+        (update.map === 'address' ? this.addressMap : this.messageMap).set(update.key, update.value);
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingKeyUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+}
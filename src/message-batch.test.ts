@@ -0,0 +1,179 @@
+import { MessageVault } from './message-vault';
+import { VaultStorage, SignedMessage } from './vault-storage';
+import { batchMessagePayload } from './message-batch';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+  Signature,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message Vault: Message Batch Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  batchedZkapp: MessageVault,
+  batchedStorage: VaultStorage,
+  sequentialZkapp: MessageVault,
+  sequentialStorage: VaultStorage;
+
+  // every batched message costs a recursive proof so the batch is kept small
+  const messages = [
+    Field(123423432423423434100000n),
+    Field(1234234324234234340_011_100n),
+  ];
+
+  beforeAll(async () => {
+    // batch proofs are always generated, only the vault transactions depend on `proofsEnabled`
+    await MessageVault.MessageBatchProgram.compile();
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+  });
+
+  async function deployAndInitialize(zkapp: MessageVault, storage: VaultStorage, zkappKey: PrivateKey) {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) {
+      let { witness, update } = storage.prepareStoreAddress(spyKey.toPublicKey());
+
+      let storeTxn = await Mina.transaction(deployerAccount, () => {
+        zkapp.storeAddress(spyKey.toPublicKey(), witness);
+      });
+      await storeTxn.prove();
+      let txId = await storeTxn.sign([deployerKey]).send();
+
+      await storage.applyWhenIncluded(txId, update);
+    }
+  }
+
+  function signMessage(spyKey: PrivateKey, message: Field, zkapp = batchedZkapp): SignedMessage {
+    return {
+      sender: spyKey.toPublicKey(),
+      message,
+      signature: Signature.create(spyKey, batchMessagePayload(zkapp.address, message)),
+    };
+  }
+
+  async function storeMessageBatch(signedMessages: SignedMessage[]) {
+    const { proof, batch, updates } = await batchedStorage.proveMessageBatch(signedMessages);
+
+    let batchTxn = await Mina.transaction(deployerAccount, () => {
+      batchedZkapp.storeMessageBatch(proof, batch);
+    });
+    await batchTxn.prove();
+    let txId = await batchTxn.sign([deployerKey]).send();
+
+    await batchedStorage.applyWhenIncluded(txId, ...updates);
+
+    return { proof, batch };
+  }
+
+  it('should deploy, initialize and store 3 spy addresses in both vaults', async () => {
+    const batchedZkappKey = PrivateKey.random();
+    batchedZkapp = new MessageVault(batchedZkappKey.toPublicKey());
+    batchedStorage = new VaultStorage(batchedZkapp);
+    await deployAndInitialize(batchedZkapp, batchedStorage, batchedZkappKey);
+
+    const sequentialZkappKey = PrivateKey.random();
+    sequentialZkapp = new MessageVault(sequentialZkappKey.toPublicKey());
+    sequentialStorage = new VaultStorage(sequentialZkapp);
+    await deployAndInitialize(sequentialZkapp, sequentialStorage, sequentialZkappKey);
+  });
+
+  it('should store the messages one at a time in the sequential vault', async () => {
+    for (const [i, message] of messages.entries()) {
+      let senderAddress = spyKeys[i].toPublicKey();
+      let { addressWitness, messageWitness, update } = sequentialStorage.prepareStoreMessage(senderAddress, message);
+
+      let messageTxn = await Mina.transaction(senderAddress, () => {
+        sequentialZkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+      });
+      await messageTxn.prove();
+      let txId = await messageTxn.sign([spyKeys[i]]).send();
+
+      await sequentialStorage.applyWhenIncluded(txId, update);
+    }
+  });
+
+  let settledBatch: Awaited<ReturnType<typeof storeMessageBatch>>;
+
+  it('should settle the same messages in a single batch transaction', async () => {
+    settledBatch = await storeMessageBatch(messages.map((message, i) => signMessage(spyKeys[i], message)));
+
+    expect(batchedZkapp.messageCommitment.get()).toEqual(sequentialZkapp.messageCommitment.get());
+    expect(batchedZkapp.messageCount.get()).toEqual(sequentialZkapp.messageCount.get());
+    expect(batchedZkapp.message.get()).toEqual(messages[1]);
+
+    // the batch proof carries the flag tallies of its messages
+    expect(batchedZkapp.getFlagTallies()).toEqual(sequentialZkapp.getFlagTallies());
+    expect(batchedZkapp.getFlagTallies()).toEqual({ flag1: 1n, flag2: 1n, flag3: 1n, flag4: 1n, flag5: 0n, flag6: 0n });
+    expect(batchedStorage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should rebuild the off-chain storage from the batched message events', async () => {
+    const rebuiltStorage = await VaultStorage.fromEvents(batchedZkapp);
+
+    expect(rebuiltStorage.messageTree.getRoot()).toEqual(sequentialStorage.messageTree.getRoot());
+  });
+
+  it('should reject a batch proof that was already settled', async () => {
+    const { proof, batch } = settledBatch;
+
+    let batchTxn = Mina.transaction(deployerAccount, () => {
+      batchedZkapp.storeMessageBatch(proof, batch);
+    });
+    await expect(batchTxn).rejects.toThrowError('Message batch was proven against an out of sync message Merkle Tree!');
+  });
+
+  it('should reject a message that was already stored', async () => {
+    const expectedErrorMessage = 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!';
+    await expect(storeMessageBatch([signMessage(spyKeys[0], Field(100000))])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject an invalid message', async () => {
+    // flag 2 is true and flag 3 is false
+    const expectedErrorMessage = 'Invalid Message! Rule2 is violated!';
+    await expect(storeMessageBatch([signMessage(spyKeys[2], Field(1234234324234234340_010_000n))])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a message signed for another vault', async () => {
+    const expectedErrorMessage = 'Message batch has an invalid spy signature!';
+    await expect(storeMessageBatch([signMessage(spyKeys[2], Field(100000), sequentialZkapp)])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a spy signature over the fields of the untagged payload', async () => {
+    const message = Field(100000);
+    const untaggedSignature = Signature.create(spyKeys[2], [...batchedZkapp.address.toFields(), message]);
+
+    const expectedErrorMessage = 'Message batch has an invalid spy signature!';
+    await expect(storeMessageBatch([{ ...signMessage(spyKeys[2], message), signature: untaggedSignature }])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should leave the off-chain storage untouched after a failed batch', async () => {
+    expect(batchedStorage.checkSync().inSync).toEqual(true);
+    expect(batchedStorage.messageTree.getRoot()).toEqual(sequentialStorage.messageTree.getRoot());
+  });
+});
@@ -0,0 +1,191 @@
+import {
+    Field,
+    PublicKey,
+    Signature,
+    Poseidon,
+    Provable,
+    Struct,
+    SelfProof,
+    ZkProgram,
+    MerkleWitness,
+} from 'o1js';
+import { validateMessage } from './message-rules.js';
+import { flagTalliesIncrement } from './flag-tallies.js';
+
+export {
+    MessageBatchState,
+    BatchedMessage,
+    MessageBatch,
+    maxBatchSize,
+    batchMessagePayload,
+    applyBatchedMessage,
+    createMessageBatchProgram,
+}
+
+// maximum number of messages settled by a single `storeMessageBatch` call
+const maxBatchSize = 8;
+
+type TreeWitness = InstanceType<ReturnType<typeof MerkleWitness>>;
+
+/**
+ * Public input of a message batch proof.
+ *
+ * The batch is proven against a fixed `addressCommitment` and takes the message tree from
+ * `initialMessageCommitment` to `messageCommitment`. `messagesHash` chains the inserted
+ * messages so that the vault can emit them without trusting the prover, and `flagTallies`
+ * packs the flag tallies of the batch that the vault adds to its own.
+ */
+class MessageBatchState extends Struct({
+    vaultAddress: PublicKey,
+    addressCommitment: Field,
+    initialMessageCommitment: Field,
+    messageCommitment: Field,
+    messageCount: Field,
+    messagesHash: Field,
+    flagTallies: Field,
+}) {
+    static start(vaultAddress: PublicKey, addressCommitment: Field, messageCommitment: Field) {
+        return new MessageBatchState({
+            vaultAddress,
+            addressCommitment,
+            initialMessageCommitment: messageCommitment,
+            messageCommitment,
+            messageCount: Field(0),
+            messagesHash: Field(0),
+            flagTallies: Field(0),
+        });
+    }
+}
+
+class BatchedMessage extends Struct({ index: Field, message: Field }) {
+    chain(messagesHash: Field) {
+        return Poseidon.hash([messagesHash, this.index, this.message]);
+    }
+}
+
+/**
+ * The messages of a batch proof, padded with empty messages up to `maxBatchSize`.
+ */
+class MessageBatch extends Struct({ messages: Provable.Array(BatchedMessage, maxBatchSize) }) {
+    static from(messages: BatchedMessage[]) {
+        if (messages.length > maxBatchSize) {
+            throw Error(`A message batch cannot hold more than ${maxBatchSize} messages!`);
+        }
+
+        const paddedMessages = [...messages];
+        while (paddedMessages.length < maxBatchSize) paddedMessages.push(new BatchedMessage({ index: Field(0), message: Field(0) }));
+
+        return new MessageBatch({ messages: paddedMessages });
+    }
+
+    /**
+     * Same hash chain as the batch proof, empty messages are skipped.
+     */
+    hash() {
+        let messagesHash = Field(0);
+        for (const batchedMessage of this.messages) {
+            messagesHash = Provable.if(batchedMessage.message.equals(0), messagesHash, batchedMessage.chain(messagesHash));
+        }
+
+        return messagesHash;
+    }
+}
+
+/*
+- spies sign their message for a single vault
+    --> whoever builds the batch cannot forge or move a message to another vault
+- the leading tag keeps batch signatures apart from the relayed message and admin approval payloads
+*/
+function batchMessagePayload(vaultAddress: PublicKey, message: Field) {
+    return [Field(10), ...vaultAddress.toFields(), message];
+}
+
+/**
+ * Insert one message into a batch, same checks as `checkAndStoreMessage` with the spy
+ * signature in place of the transaction sender.
+ *
+ * Used in-circuit by the batch program and out of circuit to compute the next batch state.
+ */
+function applyBatchedMessage(
+    state: MessageBatchState,
+    spyAddress: PublicKey,
+    signature: Signature,
+    addressWitness: TreeWitness,
+    messageWitness: TreeWitness,
+    message: Field,
+) {
+    signature.verify(spyAddress, batchMessagePayload(state.vaultAddress, message)).assertTrue('Message batch has an invalid spy signature!');
+
+    // check that the spy is eligible to store a message
+    const spyCommitment = addressWitness.calculateRoot(Poseidon.hash(spyAddress.toFields()));
+    spyCommitment.assertEquals(state.addressCommitment, 'Your account is not eligible to send a message!');
+
+    const messageIndex = messageWitness.calculateIndex();
+    messageIndex.assertEquals(addressWitness.calculateIndex(), 'Both addressWitness and messageWitness should point to the same leaf index!');
+
+    // check that the message leaf is empty in the message tree the previous messages led to
+    messageWitness.calculateRoot(Field(0)).assertEquals(state.messageCommitment, 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!');
+
+    // an empty message cannot be told apart from the padding of a `MessageBatch`
+    message.assertNotEquals(0, 'Cannot store an empty message in a batch!');
+    const flags = validateMessage(message);
+
+    return new MessageBatchState({
+        ...state,
+        messageCommitment: messageWitness.calculateRoot(message),
+        messageCount: state.messageCount.add(1),
+        messagesHash: new BatchedMessage({ index: messageIndex, message }).chain(state.messagesHash),
+        flagTallies: state.flagTallies.add(flagTalliesIncrement(flags)),
+    });
+}
+
+/**
+ * Build the recursive batch program of a vault from its witness classes.
+ *
+ * - init: an empty batch starting at the current message tree.
+ * - insertMessage: extend a batch proof with one more message.
+ */
+function createMessageBatchProgram(
+    name: string,
+    SpyMerkleWitness: ReturnType<typeof MerkleWitness>,
+    MessageMerkleWitness: ReturnType<typeof MerkleWitness>,
+) {
+    const MessageBatchProgram = ZkProgram({
+        name,
+        publicInput: MessageBatchState,
+
+        methods: {
+            init: {
+                privateInputs: [],
+
+                method(state: MessageBatchState) {
+                    state.messageCommitment.assertEquals(state.initialMessageCommitment);
+                    state.messageCount.assertEquals(0);
+                    state.messagesHash.assertEquals(0);
+                    state.flagTallies.assertEquals(0);
+                },
+            },
+
+            insertMessage: {
+                privateInputs: [SelfProof, PublicKey, Signature, SpyMerkleWitness, MessageMerkleWitness, Field],
+
+                method(
+                    state: MessageBatchState,
+                    previousProof: SelfProof<MessageBatchState, void>,
+                    spyAddress: PublicKey,
+                    signature: Signature,
+                    addressWitness: TreeWitness,
+                    messageWitness: TreeWitness,
+                    message: Field,
+                ) {
+                    previousProof.verify();
+
+                    const nextState = applyBatchedMessage(previousProof.publicInput, spyAddress, signature, addressWitness, messageWitness, message);
+                    Provable.assertEqual(MessageBatchState, state, nextState);
+                },
+            },
+        },
+    });
+
+    return MessageBatchProgram;
+}
@@ -0,0 +1,198 @@
+import { 
+  MessageVault,
+  validateMessage,
+} from './message-vault';
+import { VaultStorage } from './vault-storage';
+import { 
+  MessageFlags,
+  VaultMessage,
+} from './message-codec';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message codec tests', () => {
+  describe('version 0: legacy decimal format', () => {
+    it('decode and encode the existing test vectors unchanged', () => {
+      const testVectors = [
+        123423432423423434100000n,
+        123422343234324234234340_100000n,
+        1234234324234234340_011_000n,
+        1234234324234234340_011_100n,
+      ];
+
+      for (const testVector of testVectors) {
+        const message = VaultMessage.fromDecimal(testVector);
+
+        expect(message.version).toEqual(Field(0));
+        expect(message.encode()).toEqual(Field(testVector));
+        expect(VaultMessage.decode(Field(testVector))).toEqual(message);
+
+        // the typed validation agrees with the legacy validation
+        validateMessage(Field(testVector));
+        message.assertValid();
+      }
+    });
+
+    it('expose the flags by name', () => {
+      const { flags, payload } = VaultMessage.fromDecimal(1234234324234234340_011_100n);
+
+      expect(payload).toEqual(Field(1234234324234234340n));
+      expect(flags).toEqual(MessageFlags.from({ flag2: true, flag3: true, flag4: true }));
+    });
+
+    it('reject flags digits that are not of size 1 bit', () => {
+      const expectedErrorMessage = 'Error Validating Message! All flags are not of size 1 bit!';
+      expect(() => VaultMessage.fromDecimal(1234223432343242342343401_230000n)).toThrowError(expectedErrorMessage);
+    });
+
+    it('decode the largest decimal message below the version 1 tag', () => {
+      const message = VaultMessage.decode(Field((2n ** 252n / 1_000_000n - 1n) * 1_000_000n + 100000n));
+
+      expect(message.version).toEqual(Field(0));
+      expect(message.flags).toEqual(MessageFlags.from({ flag1: true }));
+    });
+
+    it('reject decoding a decimal message beyond the version 1 encodings', () => {
+      // an unbounded decimal message with a payload of 2^233, flag1 set
+      const expectedErrorMessage = 'Cannot decode message! It is neither a decimal nor a bit-packed message.';
+      expect(() => VaultMessage.decode(Field(2n ** 233n * 1_000_000n + 100000n))).toThrowError(expectedErrorMessage);
+    });
+  });
+
+  describe('version 1: bit-packed format', () => {
+    it('encode and decode a bit-packed message', () => {
+      const message = VaultMessage.fromFlags(123423432423423434n, { flag2: true, flag3: true });
+      const encoded = message.encode();
+
+      // flag2 and flag3 are packed into the bits 4 and 3
+      expect(encoded).toEqual(Field(2n ** 252n + 123423432423423434n * 64n + 0b011000n));
+      expect(VaultMessage.decode(encoded)).toEqual(message);
+    });
+
+    it('valid case', () => {
+      const message = VaultMessage.fromFlags(42n, { flag4: true });
+
+      expect(message.check()).toEqual([]);
+      message.assertValid();
+    });
+
+    it('invalid case', () => {
+      const message = VaultMessage.fromFlags(42n, { flag4: true, flag6: true });
+
+      const expectedErrorMessage = 'Invalid Message! Rule3 is violated!';
+      expect(message.check()).toEqual([expectedErrorMessage]);
+      expect(() => message.assertValid()).toThrowError(expectedErrorMessage);
+    });
+
+    it('reject a payload that exceeds 232 bits', () => {
+      const message = VaultMessage.fromFlags(2n ** 232n, { flag1: true });
+
+      expect(message.check()).toEqual(['Message payload exceeds 232 bits!']);
+      expect(() => message.assertValid()).toThrow();
+    });
+  });
+
+  it('reject an unsupported version', () => {
+    const message = new VaultMessage({ ...VaultMessage.fromFlags(42n, {}), version: Field(2) });
+
+    expect(message.check()).toEqual(['Unsupported message version!']);
+    expect(() => message.assertValid()).toThrowError('Unsupported message version!');
+  });
+});
+
+describe('Message Vault: Versioned Message Storage Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeVaultMessage(senderKey: PrivateKey, message: VaultMessage) { 
+    let senderAddress = senderKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message.encode());
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreVaultMessage(addressWitness, message, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy, initialize and store 3 spy addresses', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) {
+      let { witness, update } = storage.prepareStoreAddress(spyKey.toPublicKey());
+
+      let storeTxn = await Mina.transaction(deployerAccount, () => {
+        zkapp.storeAddress(spyKey.toPublicKey(), witness);
+      });
+      await storeTxn.prove();
+      let txId = await storeTxn.sign([deployerKey]).send();
+
+      await storage.applyWhenIncluded(txId, update);
+    }
+  });
+
+  it('should store a version 0 message as its legacy decimal encoding', async () => {
+    await storeVaultMessage(spyKeys[0], VaultMessage.fromDecimal(123423432423423434100000n));
+
+    expect(zkapp.message.get()).toEqual(Field(123423432423423434100000n));
+  });
+
+  it('should store a version 1 bit-packed message', async () => {
+    const message = VaultMessage.fromFlags(123423432423423434n, { flag2: true, flag3: true });
+    await storeVaultMessage(spyKeys[1], message);
+
+    expect(VaultMessage.decode(zkapp.message.get())).toEqual(message);
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+  });
+
+  it('should reject an invalid version 1 message', async () => {
+    const message = VaultMessage.fromFlags(42n, { flag1: true, flag2: true });
+    await expect(storeVaultMessage(spyKeys[2], message)).rejects.toThrowError('Invalid Message! Rule1 is violated!');
+  });
+});
@@ -0,0 +1,151 @@
+import { Bool, Field, Provable, Struct } from 'o1js';
+import {
+    FlagName,
+    MessageRule,
+    flagNames,
+    defaultMessageRules,
+    assertMessageRules,
+    checkMessageRules,
+} from './message-rules.js';
+
+export {
+    MessageFlags,
+    VaultMessage,
+    payloadBits,
+}
+
+// maximum size of a message payload in bits
+const payloadBits = 232;
+
+/*
+- version 1 messages are tagged with bit 252
+    --> a version 0 message has a payload of at most 232 bits so its decimal encoding stays below 2^252
+    --> `validateMessage` bounds legacy decimal messages the same way, see `decimalPayloadBits`
+    --> both encodings are disjoint and a message leaf can be decoded without knowing its version
+*/
+const binaryVersionTag = 2n ** 252n;
+
+// first value above the version 1 encodings, a leaf at or above it is neither format
+const binaryVersionEnd = binaryVersionTag + 2n ** BigInt(payloadBits + 6);
+
+class MessageFlags extends Struct({
+    flag1: Bool,
+    flag2: Bool,
+    flag3: Bool,
+    flag4: Bool,
+    flag5: Bool,
+    flag6: Bool,
+}) {
+    static from(flags: Partial<Record<FlagName, boolean>>) {
+        return MessageFlags.fromArray(flagNames.map((name) => flags[name] ?? false));
+    }
+
+    static fromArray(flags: boolean[]) {
+        const [flag1, flag2, flag3, flag4, flag5, flag6] = flags.map((flag) => Bool(flag));
+        return new MessageFlags({ flag1, flag2, flag3, flag4, flag5, flag6 });
+    }
+
+    // flags ordered from flag1 to flag6
+    toArray() {
+        return flagNames.map((name) => this[name]);
+    }
+}
+
+/**
+ * A typed vault message made of a payload, six named flags and a version tag.
+ *
+ * - version 0: the legacy decimal format, `payload * 10^6` plus one decimal digit per flag.
+ * - version 1: the bit-packed format, `2^252 + payload * 2^6` plus one bit per flag.
+ *
+ * In both formats flag1 is the most significant flag digit.
+ */
+class VaultMessage extends Struct({
+    version: Field,
+    payload: Field,
+    flags: MessageFlags,
+}) {
+    /**
+     * Build a version 0 message from the legacy decimal format, e.g. `123423432423423434100000n`.
+     */
+    static fromDecimal(message: Field | bigint) {
+        let value = BigInt(message.toString());
+        const payload = value / 1_000_000n;
+
+        const flags: boolean[] = [];
+        for (let i=0; i<6; i++) {
+            const digit = value % 10n;
+            if (digit > 1n) throw Error('Error Validating Message! All flags are not of size 1 bit!');
+
+            flags.unshift(digit === 1n);
+            value = value / 10n;
+        }
+
+        return new VaultMessage({ version: Field(0), payload: Field(payload), flags: MessageFlags.fromArray(flags) });
+    }
+
+    /**
+     * Build a version 1 bit-packed message.
+     */
+    static fromFlags(payload: Field | bigint, flags: Partial<Record<FlagName, boolean>>) {
+        return new VaultMessage({ version: Field(1), payload: Field(payload), flags: MessageFlags.from(flags) });
+    }
+
+    /**
+     * Decode a stored message leaf of any version.
+     */
+    static decode(message: Field) {
+        const value = message.toBigInt();
+        if (value < binaryVersionTag) return VaultMessage.fromDecimal(value);
+
+        // e.g. a decimal message stored before its payload was bounded, it must not be read as a version 1 message
+        if (value >= binaryVersionEnd) throw Error('Cannot decode message! It is neither a decimal nor a bit-packed message.');
+
+        const packed = value - binaryVersionTag;
+        const flags = Array.from({ length: 6 }, (_, i) => ((packed >> BigInt(5 - i)) & 1n) === 1n);
+
+        return new VaultMessage({ version: Field(1), payload: Field(packed >> 6n), flags: MessageFlags.fromArray(flags) });
+    }
+
+    /**
+     * The message leaf stored in the message tree.
+     */
+    encode() {
+        const flags = this.flags.toArray();
+
+        let decimal = this.payload.mul(1_000_000);
+        let binary = this.payload.mul(64).add(binaryVersionTag);
+        for (const [i, flag] of flags.entries()) {
+            decimal = decimal.add(flag.toField().mul(10 ** (5 - i)));
+            binary = binary.add(flag.toField().mul(2 ** (5 - i)));
+        }
+
+        return Provable.if(this.version.equals(0), decimal, binary);
+    }
+
+    /**
+     * Assert in-circuit that the message has a supported version, a bounded payload and flags that follow the rules.
+     */
+    assertValid(rules: MessageRule[] = defaultMessageRules) {
+        this.version.assertLessThanOrEqual(1, 'Unsupported message version!');
+
+        // bound the payload so that the encoding never overflows the field
+        this.payload.toBits(payloadBits);
+
+        assertMessageRules(this.flags.toArray(), rules);
+    }
+
+    /**
+     * Plain TypeScript counterpart of `assertValid`, returns the error messages.
+     */
+    check(rules: MessageRule[] = defaultMessageRules) {
+        const errors: string[] = [];
+
+        if (this.version.toBigInt() > 1n) errors.push('Unsupported message version!');
+        if (this.payload.toBigInt() >= 2n ** BigInt(payloadBits)) errors.push(`Message payload exceeds ${payloadBits} bits!`);
+
+        const flags = this.flags.toArray().map((flag) => flag.toBoolean());
+        errors.push(...checkMessageRules(flags, rules).map(({ message }) => message));
+
+        return errors;
+    }
+}
@@ -0,0 +1,201 @@
+import { 
+  MessageVault,
+  EncryptedMessageStoredEvent,
+} from './message-vault';
+import { VaultStorage } from './vault-storage';
+import { 
+  MessagePayload,
+  EncryptedMessage,
+  decryptMessage,
+} from './message-encryption';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+  Scalar,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message encryption tests', () => {
+  const adminKey = PrivateKey.random();
+  const payload = MessagePayload.from(123423432423423434100000n, [42n, 1337n]);
+
+  it('pad the payload data fields', () => {
+    expect(payload.data).toEqual([Field(42), Field(1337), Field(0)]);
+    expect(() => MessagePayload.from(100000n, [1n, 2n, 3n, 4n])).toThrowError('A message payload cannot hold more than 3 data fields!');
+  });
+
+  it('decrypt a payload encrypted to the admin', () => {
+    const encryptedMessage = EncryptedMessage.encrypt(payload, adminKey.toPublicKey(), Scalar.random());
+
+    expect(decryptMessage(encryptedMessage, adminKey)).toEqual(payload);
+  });
+
+  it('not reveal the payload in the cipher text or its commitment', () => {
+    const encryptedMessage = EncryptedMessage.encrypt(payload, adminKey.toPublicKey(), Scalar.random());
+    const publicFields = [...encryptedMessage.cipherText, encryptedMessage.commitment()];
+
+    for (const field of payload.toPlainText()) {
+      expect(publicFields).not.toContainEqual(field);
+    }
+  });
+
+  it('produce a different cipher text for every ephemeral key', () => {
+    const first = EncryptedMessage.encrypt(payload, adminKey.toPublicKey(), Scalar.random());
+    const second = EncryptedMessage.encrypt(payload, adminKey.toPublicKey(), Scalar.random());
+
+    expect(first.commitment()).not.toEqual(second.commitment());
+  });
+
+  it('reject decryption with another key', () => {
+    const encryptedMessage = EncryptedMessage.encrypt(payload, adminKey.toPublicKey(), Scalar.random());
+
+    expect(() => decryptMessage(encryptedMessage, PrivateKey.random())).toThrow();
+  });
+});
+
+describe('Message Vault: Encrypted Message Storage Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 5).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeEncryptedMessage(senderKey: PrivateKey, payload: MessagePayload, adminPublicKey = deployerAccount) { 
+    let senderAddress = senderKey.toPublicKey();
+    let { addressWitness, messageWitness, ephemeralKey, update } = storage.prepareStoreEncryptedMessage(senderAddress, payload, adminPublicKey);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreEncryptedMessage(addressWitness, payload, ephemeralKey, adminPublicKey, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function fetchEncryptedMessages() {
+    const events = await zkapp.fetchEvents();
+
+    return events
+      .filter(({ type }) => type === "Successfully stored an encrypted message")
+      .map(({ event }) => event.data as unknown as EncryptedMessageStoredEvent);
+  }
+
+  it('should deploy, initialize and store 4 spy addresses', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) {
+      let { witness, update } = storage.prepareStoreAddress(spyKey.toPublicKey());
+
+      let storeTxn = await Mina.transaction(deployerAccount, () => {
+        zkapp.storeAddress(spyKey.toPublicKey(), witness);
+      });
+      await storeTxn.prove();
+      let txId = await storeTxn.sign([deployerKey]).send();
+
+      await storage.applyWhenIncluded(txId, update);
+    }
+  });
+
+  it('should store an encrypted message without revealing its content on-chain', async () => {
+    const payload = MessagePayload.from(123423432423423434100000n, [42n, 1337n]);
+    await storeEncryptedMessage(spyKeys[0], payload);
+
+    // only the cipher text commitment is stored in the public state and the message tree
+    const [{ index, encryptedMessage }] = await fetchEncryptedMessages();
+    expect(zkapp.message.get()).toEqual(encryptedMessage.commitment());
+    expect(storage.messageTree.getNode(0, index.toBigInt())).toEqual(encryptedMessage.commitment());
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+
+    // no public field of the vault holds a non-zero plaintext field
+    const appState = Mina.getAccount(zkappAddress).zkapp?.appState ?? [];
+    const eventFields = (await zkapp.fetchEvents()).flatMap(({ type, event }) => {
+      const eventType = zkapp.events[type as keyof typeof zkapp.events] as typeof Field;
+      return eventType.toFields(event.data as unknown as Field);
+    });
+
+    for (const field of payload.toPlainText().filter((field) => !field.equals(0).toBoolean())) {
+      expect([...appState, ...eventFields]).not.toContainEqual(field);
+    }
+  });
+
+  it('should let the admin decrypt the stored messages from the events', async () => {
+    const payload = MessagePayload.from(1234234324234234340_011_100n, [7n]);
+    await storeEncryptedMessage(spyKeys[1], payload);
+
+    const encryptedMessages = await fetchEncryptedMessages();
+    expect(encryptedMessages.length).toEqual(2);
+    expect(decryptMessage(encryptedMessages[1].encryptedMessage, deployerKey)).toEqual(payload);
+  });
+
+  it('should leave the public flag tallies unchanged', async () => {
+    const packedState = zkapp.packedState.get();
+
+    // flag 1 of the plaintext is raised, the tallies must not tell it
+    const payload = MessagePayload.from(1234234324234234340_100_000n, [42n]);
+    await storeEncryptedMessage(spyKeys[3], payload);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+    expect(zkapp.packedState.get()).toEqual(packedState);
+    expect(zkapp.getFlagTallies().flag1).toEqual(0n);
+  });
+
+  it('should reject a payload that is not encrypted to the admin', async () => {
+    const payload = MessagePayload.from(100000n);
+    const expectedErrorMessage = 'Message must be encrypted to the admin public key!';
+
+    await expect(storeEncryptedMessage(spyKeys[2], payload, PrivateKey.random().toPublicKey())).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject an encrypted payload carrying an invalid message', async () => {
+    // flag 2 is true and flag 3 is false
+    const payload = MessagePayload.from(1234234324234234340_010_000n, [42n]);
+    const expectedErrorMessage = 'Invalid Message! Rule2 is violated!';
+
+    await expect(storeEncryptedMessage(spyKeys[2], payload)).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should rebuild the off-chain storage from the events', async () => {
+    const rebuiltStorage = await VaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.messageTree.getRoot()).toEqual(storage.messageTree.getRoot());
+  });
+});
@@ -0,0 +1,113 @@
+import {
+    Field,
+    Group,
+    Poseidon,
+    PrivateKey,
+    Provable,
+    PublicKey,
+    Scalar,
+    Struct,
+    Encryption,
+} from 'o1js';
+
+export {
+    MessagePayload,
+    EncryptedMessage,
+    payloadDataSize,
+    decryptMessage,
+}
+
+// number of free-form data fields carried next to the flagged message
+const payloadDataSize = 3;
+
+/**
+ * The plaintext submitted by a spy.
+ *
+ * `message` carries the flags and must pass `validateMessage`, `data` is free-form content.
+ */
+class MessagePayload extends Struct({
+    message: Field,
+    data: Provable.Array(Field, payloadDataSize),
+}) {
+    static from(message: Field | bigint, data: (Field | bigint)[] = []) {
+        if (data.length > payloadDataSize) {
+            throw Error(`A message payload cannot hold more than ${payloadDataSize} data fields!`);
+        }
+
+        const paddedData = data.map((field) => Field(field));
+        while (paddedData.length < payloadDataSize) paddedData.push(Field(0));
+
+        return new MessagePayload({ message: Field(message), data: paddedData });
+    }
+
+    static fromPlainText(plainText: Field[]) {
+        const [message, ...data] = plainText;
+        return new MessagePayload({ message, data });
+    }
+
+    toPlainText() {
+        return [this.message, ...this.data];
+    }
+}
+
+/**
+ * A message payload encrypted to the admin public key.
+ *
+ * Same scheme as `Encryption.encrypt` so the admin can decrypt it with `Encryption.decrypt`,
+ * the last cipher text field is the authentication tag.
+ */
+class EncryptedMessage extends Struct({
+    publicKey: Group,
+    cipherText: Provable.Array(Field, payloadDataSize + 2),
+}) {
+    /*
+    - `Encryption.encrypt` witnesses a random ephemeral key inside the circuit
+        --> the ephemeral key is taken as an input instead so that the spy knows the cipher text before proving
+        --> the off-chain storage can then compute the message leaf ahead of the transaction
+    */
+    static encrypt(payload: MessagePayload, adminPublicKey: PublicKey, ephemeralKey: Scalar) {
+        // key exchange
+        const publicKey = Group.generator.scale(ephemeralKey);
+        const sharedSecret = adminPublicKey.toGroup().scale(ephemeralKey);
+
+        const sponge = new Poseidon.Sponge();
+        sponge.absorb(sharedSecret.x);
+
+        // encryption
+        const plainText = payload.toPlainText();
+        const cipherText: Field[] = [];
+        for (let i=0; i<plainText.length; i++) {
+            cipherText.push(plainText[i].add(sponge.squeeze()));
+
+            // absorb for the authentication tag, two at a time for saving permutations
+            if (i % 2 === 1) sponge.absorb(cipherText[i - 1]);
+            if (i % 2 === 1 || i === plainText.length - 1) sponge.absorb(cipherText[i]);
+        }
+
+        // authentication tag
+        cipherText.push(sponge.squeeze());
+
+        return new EncryptedMessage({ publicKey, cipherText });
+    }
+
+    /**
+     * The message leaf stored in the message tree in place of the plaintext.
+     */
+    commitment() {
+        return Poseidon.hash([...this.publicKey.toFields(), ...this.cipherText]);
+    }
+}
+
+/**
+ * Admin-side helper to decrypt a message fetched from the vault events.
+ *
+ * Throws if the cipher text was not encrypted to the given admin key.
+ */
+function decryptMessage(encryptedMessage: EncryptedMessage, adminKey: PrivateKey) {
+    const plainText = Encryption.decrypt({
+        publicKey: encryptedMessage.publicKey,
+        cipherText: [...encryptedMessage.cipherText],
+    }, adminKey);
+
+    return MessagePayload.fromPlainText(plainText);
+}
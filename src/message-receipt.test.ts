@@ -0,0 +1,166 @@
+import { MessageVault } from './message-vault';
+import { VaultStorage } from './vault-storage';
+import {
+  MessageReceipt,
+  verifyMessageReceipt,
+  verifyMessageReceiptOnChain,
+} from './message-receipt';
+import {
+  Field,
+  Poseidon,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message Receipt: Inclusion Proof Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage,
+  receipt: MessageReceipt;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkapp = new MessageVault(zkappPrivateKey.toPublicKey());
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) {
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(spyKey: PrivateKey) {
+    let senderAddress = spyKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy a vault holding a message from one of 3 spies', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys) await storeAddress(spyKey.toPublicKey());
+    await storeMessage(spyKeys[1]);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should issue a serializable receipt of a stored message', () => {
+    receipt = JSON.parse(JSON.stringify(storage.getMessageReceipt(1n)));
+
+    expect(receipt.index).toEqual('1');
+    expect(receipt.message).toEqual(message.toString());
+    expect(receipt.path.length).toEqual(MessageVault.config.height - 1);
+    expect(receipt.messageCommitment).toEqual(zkapp.messageCommitment.get().toString());
+  });
+
+  it('should verify a receipt against a root and against the contract state', () => {
+    expect(verifyMessageReceipt(receipt, Field(receipt.messageCommitment))).toEqual({ valid: true, superseded: false });
+    expect(verifyMessageReceiptOnChain(receipt, zkapp)).toEqual({ valid: true, superseded: false });
+  });
+
+  it('should reject issuing a receipt for an empty message leaf', () => {
+    expect(() => storage.getMessageReceipt(0n)).toThrowError('Cannot issue a receipt for an empty message leaf!');
+  });
+
+  it('should report a receipt superseded by a later message', async () => {
+    await storeMessage(spyKeys[2]);
+
+    const history = await storage.messageCommitmentHistory();
+    expect(history.map(String)).toContain(receipt.messageCommitment);
+    expect(history[history.length - 1]).toEqual(zkapp.messageCommitment.get());
+
+    expect(verifyMessageReceiptOnChain(receipt, zkapp, history)).toEqual({ valid: false, superseded: true });
+    // without the root history an outdated receipt cannot be told apart from a forged one
+    expect(verifyMessageReceiptOnChain(receipt, zkapp)).toEqual({ valid: false, superseded: false });
+
+    // a fresh receipt of the same message is valid again
+    expect(verifyMessageReceiptOnChain(storage.getMessageReceipt(1n), zkapp, history)).toEqual({ valid: true, superseded: false });
+  });
+
+  it('should not report a fabricated receipt as superseded', async () => {
+    const history = await storage.messageCommitmentHistory();
+
+    // a made-up path leads to a root that the vault never had
+    const path = receipt.path.map(() => Field.random().toString());
+    let root = Field(receipt.message);
+    for (const [level, sibling] of path.entries()) {
+      root = level === 0 ? Poseidon.hash([Field(sibling), root]) : Poseidon.hash([root, Field(sibling)]);
+    }
+    const fabricatedReceipt = { ...receipt, path, messageCommitment: root.toString() };
+
+    expect(verifyMessageReceiptOnChain(fabricatedReceipt, zkapp, history)).toEqual({ valid: false, superseded: false });
+  });
+
+  it('should reject tampered receipts', () => {
+    const currentReceipt = storage.getMessageReceipt(1n);
+    const root = zkapp.messageCommitment.get();
+    const rejected = { valid: false, superseded: false };
+
+    expect(verifyMessageReceipt({ ...currentReceipt, message: '100000' }, root)).toEqual(rejected);
+    expect(verifyMessageReceipt({ ...currentReceipt, index: '2' }, root)).toEqual(rejected);
+    expect(verifyMessageReceipt({ ...currentReceipt, path: [Field.random().toString(), ...currentReceipt.path.slice(1)] }, root)).toEqual(rejected);
+    expect(verifyMessageReceipt({ ...currentReceipt, path: currentReceipt.path.slice(1) }, root)).toEqual(rejected);
+    expect(verifyMessageReceipt({ ...currentReceipt, index: '-1' }, root)).toEqual(rejected);
+    expect(verifyMessageReceipt({ ...currentReceipt, message: 'not a field' }, root)).toEqual(rejected);
+
+    // an inner node of the tree passed for a leaf with a shorter path leads to the same root
+    const innerNode = Poseidon.hash([Field(currentReceipt.path[0]), Field(currentReceipt.message)]);
+    expect(verifyMessageReceipt({ ...currentReceipt, index: '0', message: innerNode.toString(), path: currentReceipt.path.slice(1) }, root)).toEqual(rejected);
+
+    // a receipt pointing to a forged commitment is not superseded but tampered
+    expect(verifyMessageReceipt({ ...currentReceipt, messageCommitment: Field.random().toString() }, root)).toEqual(rejected);
+  });
+
+  it('should reject a receipt issued for another vault', () => {
+    const currentReceipt = storage.getMessageReceipt(1n);
+    const otherVaultAddress = PrivateKey.random().toPublicKey().toBase58();
+
+    expect(verifyMessageReceiptOnChain({ ...currentReceipt, vaultAddress: otherVaultAddress }, zkapp)).toEqual({ valid: false, superseded: false });
+  });
+});
@@ -0,0 +1,115 @@
+import {
+    Field,
+    MerkleTree,
+    Poseidon,
+    PublicKey,
+} from 'o1js';
+import { MessageVault } from './message-vault.js';
+
+export {
+    MessageReceipt,
+    ReceiptVerification,
+    createMessageReceipt,
+    verifyMessageReceipt,
+    verifyMessageReceiptOnChain,
+}
+
+/**
+ * A JSON-serializable inclusion proof of a stored message, see `VaultStorage.getMessageReceipt`.
+ *
+ * - path: the sibling nodes from the message leaf up to the root, fields are decimal strings.
+ * - messageCommitment: the root the receipt was issued against.
+ */
+type MessageReceipt = {
+    vaultAddress: string;
+    index: string;
+    message: string;
+    path: string[];
+    messageCommitment: string;
+}
+
+/**
+ * - valid: the receipt leads to its recorded commitment, which is the expected root.
+ * - superseded: the receipt leads to its recorded commitment, a past root of the vault, but the message tree has moved on since.
+ *
+ * A tampered receipt is neither valid nor superseded.
+ */
+type ReceiptVerification = {
+    valid: boolean;
+    superseded: boolean;
+}
+
+/**
+ * Build a receipt of the message stored at an index of a message tree.
+ */
+function createMessageReceipt(vaultAddress: PublicKey, messageTree: MerkleTree, index: bigint): MessageReceipt {
+    const message = messageTree.getNode(0, index);
+    if (message.equals(0).toBoolean()) throw Error('Cannot issue a receipt for an empty message leaf!');
+
+    return {
+        vaultAddress: vaultAddress.toBase58(),
+        index: index.toString(),
+        message: message.toString(),
+        path: messageTree.getWitness(index).map(({ sibling }) => sibling.toString()),
+        messageCommitment: messageTree.getRoot().toString(),
+    }
+}
+
+/**
+ * Check a receipt offline against a message tree root, without the message tree or a witness class.
+ *
+ * A receipt is only reported as superseded if its commitment is one of the past roots in `messageCommitmentHistory`,
+ * see `VaultStorage.messageCommitmentHistory`: anyone can make up a path to a root of their own.
+ * @param height tree height of the vault the receipt was issued by, see `createMessageVault`
+ */
+function verifyMessageReceipt(
+    receipt: MessageReceipt,
+    expectedRoot: Field,
+    messageCommitmentHistory: Field[] = [],
+    height = MessageVault.config.height,
+): ReceiptVerification {
+    const leadsToCommitment = calculateReceiptRoot(receipt, height)?.toString() === receipt.messageCommitment;
+    const isCurrent = receipt.messageCommitment === expectedRoot.toString();
+    const isPastRoot = messageCommitmentHistory.some((root) => root.toString() === receipt.messageCommitment);
+
+    return {
+        valid: leadsToCommitment && isCurrent,
+        superseded: leadsToCommitment && !isCurrent && isPastRoot,
+    }
+}
+
+/**
+ * Check a receipt against the current `messageCommitment` of a vault, the account is expected to be fetched.
+ */
+function verifyMessageReceiptOnChain(receipt: MessageReceipt, zkapp: MessageVault, messageCommitmentHistory: Field[] = []): ReceiptVerification {
+    // a receipt of another vault proves nothing about this one
+    if (receipt.vaultAddress !== zkapp.address.toBase58()) return { valid: false, superseded: false };
+
+    const { height } = (zkapp.constructor as typeof MessageVault).config;
+
+    return verifyMessageReceipt(receipt, zkapp.messageCommitment.get(), messageCommitmentHistory, height);
+}
+
+/*
+- same hashing as `MerkleWitness.calculateRoot`, the index bits tell on which side each sibling is
+    --> a malformed receipt, e.g. a path of another height, an index out of the tree or a non-field string, has no root
+*/
+function calculateReceiptRoot(receipt: MessageReceipt, height: number) {
+    try {
+        // a shorter path would let an inner node pass for a message leaf
+        if (receipt.path.length !== height - 1) return undefined;
+
+        const index = BigInt(receipt.index);
+        if (index < 0n || index >= 2n ** BigInt(receipt.path.length)) return undefined;
+
+        let node = Field(receipt.message);
+        for (const [level, sibling] of receipt.path.entries()) {
+            const isLeft = ((index >> BigInt(level)) & 1n) === 0n;
+            node = isLeft ? Poseidon.hash([node, Field(sibling)]) : Poseidon.hash([Field(sibling), node]);
+        }
+
+        return node;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,162 @@
+import { validateMessage } from './message-vault';
+import { 
+  MessageRule,
+  defaultMessageRules,
+  assertMessageRules,
+  checkMessageRules,
+} from './message-rules';
+import { Bool, Field, Provable } from 'o1js';
+
+// encode flags ordered from flag1 to flag6 into the last six decimal digits of a message
+function encodeFlags(flags: boolean[]) {
+  const digits = flags.map((flag) => (flag ? '1' : '0')).join('');
+  return Field(BigInt('123423432423423434' + digits));
+}
+
+const allFlagCombinations = Array.from({ length: 64 }, (_, combination) => 
+  Array.from({ length: 6 }, (_, i) => ((combination >> (5 - i)) & 1) === 1)
+);
+
+// the validator before its redesign, kept as a reference for the redesigned `validateMessage`
+function legacyValidateMessage(message: Field, rules: MessageRule[] = defaultMessageRules) {
+  const slicedMessage = Provable.witness(Provable.Array(Field, 2), () => {
+    return [Field(message.toBigInt() / 1_000_000n), Field(message.toBigInt() % 1_000_000n)];
+  });
+  const [restDigits, lastSixDigits] = slicedMessage;
+  restDigits.mul(1_000_000).add(lastSixDigits).assertEquals(message);
+
+  lastSixDigits.assertLessThanOrEqual(111111, 'Error Validating Message! All flags are not of size 1 bit!');
+
+  const flags = Provable.witness(Provable.Array(Bool, 6), () => {
+    let digits = lastSixDigits.toBigInt();
+    const flags: Bool[] = [];
+    for (let i=0; i<6; i++) {
+      flags.push(Bool(digits % 10n === 1n));
+      digits = digits / 10n;
+    }
+    return flags;
+  });
+
+  let flagsChecker = Field(0);
+  for (const [index, flag] of flags.entries()) flagsChecker = flagsChecker.add(flag.toField().mul(10 ** index));
+  flagsChecker.assertEquals(lastSixDigits, 'Error Separating Message Flags!');
+
+  const orderedFlags = flags.reverse();
+  assertMessageRules(orderedFlags, rules);
+
+  return orderedFlags;
+}
+
+// the decoded flags, or the error message of the first failed assertion
+function runValidator(validator: (message: Field) => Bool[], message: Field) {
+  try {
+    return validator(message).map((flag) => flag.toBoolean());
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+describe('Message rule engine tests', () => {
+  describe('default rules', () => {
+    it('provable and plain checkers agree on all 64 flag combinations', () => {
+      for (const flags of allFlagCombinations) {
+        const violations = checkMessageRules(flags);
+        
+        if (violations.length === 0) {
+          validateMessage(encodeFlags(flags));
+        } else {
+          // the provable checker fails on the first violated rule
+          expect(() => validateMessage(encodeFlags(flags))).toThrowError(violations[0].message);
+        }
+      }
+    });
+
+    it('report every violated rule', () => {
+      const violations = checkMessageRules([true, true, false, true, true, false]);
+      expect(violations.map(({ rule }) => rule.name)).toEqual(['Rule1', 'Rule2', 'Rule3']);
+      expect(violations[1].message).toEqual('Invalid Message! Rule2 is violated!');
+    });
+
+    it('keep the three original rules', () => {
+      expect(defaultMessageRules.map(({ name }) => name)).toEqual(['Rule1', 'Rule2', 'Rule3']);
+    });
+  });
+
+  describe('custom rules', () => {
+    const customRules: MessageRule[] = [
+      { name: 'Priority', kind: 'exactlyOne', flags: ['flag1', 'flag2'] },
+      { name: 'Corroboration', kind: 'atLeast', k: 2, flags: ['flag4', 'flag5', 'flag6'] },
+    ];
+
+    it('valid case', () => {
+      const flags = [false, true, false, true, false, true];
+      
+      expect(checkMessageRules(flags, customRules)).toEqual([]);
+      validateMessage(encodeFlags(flags), customRules);
+    });
+
+    it('exactly-one invalid case', () => {
+      const flags = [true, true, false, true, true, false];
+
+      const expectedErrorMessage = 'Invalid Message! Priority is violated!';
+      expect(checkMessageRules(flags, customRules).map(({ message }) => message)).toEqual([expectedErrorMessage]);
+      expect(() => validateMessage(encodeFlags(flags), customRules)).toThrowError(expectedErrorMessage);
+    });
+
+    it('at-least-k invalid case', () => {
+      const flags = [true, false, false, false, false, true];
+
+      const expectedErrorMessage = 'Invalid Message! Corroboration is violated!';
+      expect(checkMessageRules(flags, customRules).map(({ message }) => message)).toEqual([expectedErrorMessage]);
+      expect(() => validateMessage(encodeFlags(flags), customRules)).toThrowError(expectedErrorMessage);
+    });
+  });
+
+  describe('redesigned validator', () => {
+    it('agrees with the legacy validator on all 64 flag combinations', () => {
+      for (const flags of allFlagCombinations) {
+        const message = encodeFlags(flags);
+        const result = runValidator(validateMessage, message);
+
+        expect(result).toEqual(runValidator(legacyValidateMessage, message));
+        if (checkMessageRules(flags).length === 0) expect(result).toEqual(flags);
+      }
+    });
+
+    it('decodes the flags of a message without leading digits', () => {
+      expect(validateMessage(Field(11000)).map((flag) => flag.toBoolean())).toEqual([false, true, true, false, false, false]);
+    });
+
+    it('rejects flag digits above 1 that stay below 111111', () => {
+      const expectedErrorMessage = 'Error Validating Message! All flags are not of size 1 bit!';
+      expect(() => validateMessage(Field(123423432423423434_000002n))).toThrowError(expectedErrorMessage);
+      expect(() => validateMessage(Field(123423432423423434_019111n))).toThrowError(expectedErrorMessage);
+    });
+
+    it('rejects a message whose leading digits exceed 232 bits', () => {
+      const expectedErrorMessage = 'Error Validating Message! The message exceeds 232 bits before its flags!';
+      expect(() => validateMessage(Field(2n ** 232n * 1_000_000n + 100000n))).toThrowError(expectedErrorMessage);
+
+      validateMessage(Field((2n ** 232n - 1n) * 1_000_000n + 100000n));
+    });
+
+    it('narrows the legacy domain at leading digits of 2^232', () => {
+      const lastAccepted = Field((2n ** 232n - 1n) * 1_000_000n + 100000n);
+      const firstRejected = Field(2n ** 232n * 1_000_000n + 100000n);
+
+      expect(runValidator(validateMessage, lastAccepted)).toEqual(runValidator(legacyValidateMessage, lastAccepted));
+
+      // the legacy validator accepted the message, its decimal encoding could reach the version 1 tag
+      expect(runValidator(legacyValidateMessage, firstRejected)).toEqual([true, false, false, false, false, false]);
+      expect(runValidator(validateMessage, firstRejected)).toEqual('Error Validating Message! The message exceeds 232 bits before its flags!');
+    });
+
+    it('uses fewer constraints than the legacy validator', () => {
+      const countRows = (validator: (message: Field) => Bool[]) => Provable.constraintSystem(() => {
+        validator(Provable.witness(Field, () => Field(123423432423423434100000n)));
+      }).rows;
+
+      expect(countRows(validateMessage)).toBeLessThan(countRows(legacyValidateMessage) / 4);
+    });
+  });
+});
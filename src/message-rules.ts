@@ -0,0 +1,160 @@
+import { Bool, Field, Gadgets, Provable } from 'o1js';
+
+export {
+    FlagName,
+    MessageRule,
+    RuleViolation,
+    flagNames,
+    defaultMessageRules,
+    assertMessageRules,
+    checkMessageRules,
+    ruleErrorMessage,
+    validateMessage,
+}
+
+/*
+- the digits of a decimal message before its flags are bounded so that the message stays below 2^252
+    --> same bound as the payload of `VaultMessage`, so a valid decimal message always decodes as version 0
+*/
+const decimalPayloadBits = 232;
+
+const flagNames = ['flag1', 'flag2', 'flag3', 'flag4', 'flag5', 'flag6'] as const;
+
+type FlagName = typeof flagNames[number];
+
+/**
+ * A declarative rule over the six message flags.
+ *
+ * - implies: if `flag` is set, all `then` flags must be set.
+ * - excludes: if `flag` is set, none of the `others` flags can be set.
+ * - exactlyOne: exactly one of `flags` must be set.
+ * - atLeast: at least `k` of `flags` must be set.
+ */
+type MessageRule = { name: string } & (
+    | { kind: 'implies', flag: FlagName, then: FlagName[] }
+    | { kind: 'excludes', flag: FlagName, others: FlagName[] }
+    | { kind: 'exactlyOne', flags: FlagName[] }
+    | { kind: 'atLeast', k: number, flags: FlagName[] }
+);
+
+type RuleViolation = { rule: MessageRule, message: string };
+
+/**
+ * The rules enforced by `validateMessage` by default.
+ */
+const defaultMessageRules: MessageRule[] = [
+    // if flag 1 is true, then all other flags must be false
+    { name: 'Rule1', kind: 'excludes', flag: 'flag1', others: ['flag2', 'flag3', 'flag4', 'flag5', 'flag6'] },
+    // if flag 2 is true, then flag 3 must also be true.
+    { name: 'Rule2', kind: 'implies', flag: 'flag2', then: ['flag3'] },
+    // if flag 4 is true, then flags 5 and 6 must be false.
+    { name: 'Rule3', kind: 'excludes', flag: 'flag4', others: ['flag5', 'flag6'] },
+];
+
+function ruleErrorMessage(rule: MessageRule) {
+    return `Invalid Message! ${rule.name} is violated!`;
+}
+
+/**
+ * Compile the rules into constraints over the provable flags ordered from flag1 to flag6.
+ */
+function assertMessageRules(flags: Bool[], rules = defaultMessageRules) {
+    const flag = (name: FlagName) => flags[flagNames.indexOf(name)];
+    const countSet = (names: FlagName[]) => names.reduce((count, name) => count.add(flag(name).toField()), Field(0));
+
+    for (const rule of rules) {
+        let isSatisfied: Bool;
+
+        switch (rule.kind) {
+            case 'implies':
+                isSatisfied = flag(rule.flag).not().or(countSet(rule.then).equals(rule.then.length));
+                break;
+            case 'excludes':
+                isSatisfied = flag(rule.flag).not().or(countSet(rule.others).equals(0));
+                break;
+            case 'exactlyOne':
+                isSatisfied = countSet(rule.flags).equals(1);
+                break;
+            case 'atLeast':
+                isSatisfied = countSet(rule.flags).greaterThanOrEqual(rule.k);
+                break;
+        }
+
+        isSatisfied.assertTrue(ruleErrorMessage(rule));
+    }
+}
+
+/**
+ * Plain TypeScript checker of the rules, returns the violated rules.
+ */
+function checkMessageRules(flags: boolean[], rules = defaultMessageRules): RuleViolation[] {
+    const flag = (name: FlagName) => flags[flagNames.indexOf(name)];
+    const countSet = (names: FlagName[]) => names.filter(flag).length;
+
+    return rules.filter((rule) => {
+        switch (rule.kind) {
+            case 'implies':
+                return flag(rule.flag) && countSet(rule.then) !== rule.then.length;
+            case 'excludes':
+                return flag(rule.flag) && countSet(rule.others) !== 0;
+            case 'exactlyOne':
+                return countSet(rule.flags) !== 1;
+            case 'atLeast':
+                return countSet(rule.flags) < rule.k;
+        }
+    }).map((rule) => ({ rule, message: ruleErrorMessage(rule) }));
+}
+
+/**
+ * Validate a message in the legacy decimal format, its last six digits being the flags from flag1 to flag6.
+ *
+ * The leading digits must fit in `decimalPayloadBits`. The original validator accepted any leading digits,
+ * a message from `2^232 * 10^6` on is now rejected so that a decimal message never reaches the version 1 tag
+ * of `VaultMessage` at 2^252 and is always decoded as version 0.
+ *
+ * Returns the decoded flags ordered from flag1 to flag6.
+ */
+function validateMessage(message: Field, rules: MessageRule[] = defaultMessageRules) {
+    // split the message into its leading digits, as 64-bit limbs, and its six flag digits ordered from flag1 to flag6
+    const payloadLimbs = Provable.witness(Provable.Array(Field, 4), () => {
+        const payload = message.toBigInt() / 1_000_000n;
+        return [0n, 1n, 2n, 3n].map((i) => Field((payload >> (64n * i)) & (2n ** 64n - 1n)));
+    });
+
+    const flags = Provable.witness(Provable.Array(Bool, 6), () => {
+        // any digit but 1 is decoded as false, the decomposition check then rejects digits above 1
+        const digits = (message.toBigInt() % 1_000_000n).toString().padStart(6, '0');
+        return [...digits].map((digit) => Bool(digit === '1'));
+    });
+
+    /*
+    - range check the payload below 2^decimalPayloadBits: four 64-bit limbs, the top one also shifted to fill 64 bits
+        --> the top limb is checked on its own first, so the shift cannot wrap around the field
+        --> range checks are only enforced by the prover, the bound is read as prover to fail early with a clear error
+    */
+    Provable.asProver(() => {
+        if (message.toBigInt() / 1_000_000n >= 2n ** BigInt(decimalPayloadBits)) {
+            throw Error(`Error Validating Message! The message exceeds ${decimalPayloadBits} bits before its flags!`);
+        }
+    });
+
+    for (const limb of payloadLimbs) Gadgets.rangeCheck64(limb);
+    Gadgets.rangeCheck64(payloadLimbs[3].mul(2n ** BigInt(256 - decimalPayloadBits)));
+
+    /*
+    - a single linear check binds the flags to the message: message = payload * 10^6 + sum(flag_i * 10^(6 - i))
+        --> the right-hand side stays below 2^252 < p, so the equality also holds over the integers
+        --> flags are booleans, so they are exactly the last six decimal digits of the message
+    */
+    let decomposition = Field(0);
+    for (const [i, limb] of payloadLimbs.entries()) decomposition = decomposition.add(limb.mul(2n ** (64n * BigInt(i))));
+    decomposition = decomposition.mul(1_000_000);
+    for (const [i, flag] of flags.entries()) decomposition = decomposition.add(flag.toField().mul(10 ** (5 - i)));
+
+    decomposition.assertEquals(message, 'Error Validating Message! All flags are not of size 1 bit!');
+
+    // check the message rules over the flags ordered from flag1 to flag6
+    assertMessageRules(flags, rules);
+
+    return flags;
+}
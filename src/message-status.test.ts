@@ -0,0 +1,470 @@
+import { MessageVault, MessageMerkleWitness, createMessageVault } from './message-vault';
+import { VaultStorage } from './vault-storage';
+import { AdminSet, AdminApprovals, initRegistryPayload, updateStatusPayload } from './admin-set';
+import {
+  MessageStatus,
+  MessageStatusRegistry,
+  MessageStatusStorage,
+  createMessageStatusRegistry,
+  verifyMessageStatus,
+} from './message-status';
+import {
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message Status Registry: Acknowledgement Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  vaultPrivateKey: PrivateKey,
+  vault: MessageVault,
+  vaultStorage: VaultStorage,
+  registryPrivateKey: PrivateKey,
+  registry: MessageStatusRegistry,
+  storage: MessageStatusStorage;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) {
+      await MessageVault.compile();
+      await MessageStatusRegistry.compile();
+    }
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 3).map((account) => account.privateKey);
+
+    // zkapp accounts
+    vaultPrivateKey = PrivateKey.random();
+    vault = new MessageVault(vaultPrivateKey.toPublicKey());
+    vaultStorage = new VaultStorage(vault);
+
+    registryPrivateKey = PrivateKey.random();
+    registry = new MessageStatusRegistry(registryPrivateKey.toPublicKey());
+    storage = new MessageStatusStorage(registry, vaultStorage);
+  });
+
+  async function deployAndInitVault() {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      vault.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, vaultPrivateKey]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      vault.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+  }
+
+  async function storeAddress(spyAddress: PublicKey) {
+    let { witness, update } = vaultStorage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      vault.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await vaultStorage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(spyKey: PrivateKey) {
+    let senderAddress = spyKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = vaultStorage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      vault.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await vaultStorage.applyWhenIncluded(txId, update);
+  }
+
+  async function initRegistry(senderKey: PrivateKey) {
+    let initTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      registry.initRegistry(vault.address);
+    });
+    await initTxn.prove();
+    await initTxn.sign([senderKey]).send();
+  }
+
+  async function updateStatus(index: bigint, status: MessageStatus, senderKey=deployerKey) {
+    let { message, messageWitness, currentLeaf, statusWitness, update } = storage.prepareUpdateStatus(index, status);
+
+    let updateTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      registry.updateStatus(message, messageWitness, currentLeaf, statusWitness, Field(status));
+    });
+    await updateTxn.prove();
+    let txId = await updateTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy a vault holding a message from one of 2 spies', async () => {
+    await deployAndInitVault();
+
+    for (const spyKey of spyKeys) await storeAddress(spyKey.toPublicKey());
+    await storeMessage(spyKeys[0]);
+
+    expect(vault.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should reject any sender except the vault admin to initialize the registry', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      registry.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, registryPrivateKey]).send();
+
+    await expect(initRegistry(spyKeys[0])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should bind the registry to the vault', async () => {
+    await initRegistry(deployerKey);
+
+    expect(registry.vaultAddress.get()).toEqual(vault.address);
+    expect(registry.statusCommitment.get()).toEqual(storage.statusTree.getRoot());
+  });
+
+  it('should reject a second initialization of the registry', async () => {
+    await expect(initRegistry(deployerKey)).rejects.toThrowError('Account_proved_state_precondition_unsatisfied');
+  });
+
+  it('should give the spy a receipt of a received message', async () => {
+    const receipt = storage.getReceipt(0n);
+
+    expect(receipt.status).toEqual(MessageStatus.received);
+    expect(verifyMessageStatus(registry.statusCommitment.get(), receipt)).toEqual(true);
+  });
+
+  it('should reject tx for any sender except the vault admin to update a status', async () => {
+    await expect(updateStatus(0n, MessageStatus.acknowledged, spyKeys[0])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should reject a status update that claims the vault admin as sender without its signature', async () => {
+    const payerKey = spyKeys[1];
+    let { message, messageWitness, currentLeaf, statusWitness } = storage.prepareUpdateStatus(0n, MessageStatus.acknowledged);
+
+    // `this.sender` is a witness, a prover can claim any sender while paying the fee with another key
+    Object.defineProperty(registry, 'sender', { get: () => deployerAccount, configurable: true });
+    try {
+      const updateTxn = await Mina.transaction(payerKey.toPublicKey(), () => {
+        registry.updateStatus(message, messageWitness, currentLeaf, statusWitness, Field(MessageStatus.acknowledged));
+      });
+      await updateTxn.prove();
+      await expect(updateTxn.sign([payerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (registry as { sender?: PublicKey }).sender;
+    }
+
+    expect(storage.getStatus(0n)).toEqual(MessageStatus.received);
+  });
+
+  it('should acknowledge a message and supersede its received receipt', async () => {
+    const receivedReceipt = storage.getReceipt(0n);
+
+    await updateStatus(0n, MessageStatus.acknowledged);
+
+    expect(storage.getStatus(0n)).toEqual(MessageStatus.acknowledged);
+    expect(verifyMessageStatus(registry.statusCommitment.get(), storage.getReceipt(0n))).toEqual(true);
+    expect(verifyMessageStatus(registry.statusCommitment.get(), receivedReceipt)).toEqual(false);
+  });
+
+  it('should mark a message as actioned', async () => {
+    await updateStatus(0n, MessageStatus.actioned);
+
+    expect(storage.getStatus(0n)).toEqual(MessageStatus.actioned);
+    expect(verifyMessageStatus(registry.statusCommitment.get(), storage.getReceipt(0n))).toEqual(true);
+  });
+
+  it('should reject moving a status backward or to the same status', async () => {
+    const expectedErrorMessage = 'A message status can only move forward!';
+    await expect(updateStatus(0n, MessageStatus.acknowledged)).rejects.toThrowError(expectedErrorMessage);
+    await expect(updateStatus(0n, MessageStatus.actioned)).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject an unknown status', async () => {
+    await expect(updateStatus(0n, 3 as MessageStatus)).rejects.toThrowError('Unknown message status!');
+  });
+
+  it('should reject a status update of an empty message leaf', async () => {
+    expect(() => storage.prepareUpdateStatus(1n, MessageStatus.acknowledged)).toThrowError('Cannot update the status of an empty message leaf!');
+
+    const messageWitness = new MessageMerkleWitness(vaultStorage.messageTree.getWitness(1n));
+    const statusWitness = new MessageMerkleWitness(storage.statusTree.getWitness(1n));
+
+    await expect(Mina.transaction(deployerAccount, () => {
+      registry.updateStatus(Field(0), messageWitness, Field(0), statusWitness, Field(MessageStatus.acknowledged));
+    })).rejects.toThrowError('Cannot update the status of an empty message leaf!');
+  });
+
+  it('should reject a status update of a message that is not stored in the vault', async () => {
+    const messageWitness = new MessageMerkleWitness(vaultStorage.messageTree.getWitness(1n));
+    const statusWitness = new MessageMerkleWitness(storage.statusTree.getWitness(1n));
+
+    await expect(Mina.transaction(deployerAccount, () => {
+      registry.updateStatus(message, messageWitness, Field(0), statusWitness, Field(MessageStatus.acknowledged));
+    })).rejects.toThrowError('Message is not stored in the vault!');
+  });
+
+  it('should reject tampered receipts', async () => {
+    const statusCommitment = registry.statusCommitment.get();
+    const receipt = storage.getReceipt(0n);
+
+    expect(verifyMessageStatus(statusCommitment, { ...receipt, status: MessageStatus.acknowledged })).toEqual(false);
+    expect(verifyMessageStatus(statusCommitment, { ...receipt, message: Field(100000) })).toEqual(false);
+    expect(verifyMessageStatus(statusCommitment, { ...receipt, index: 1n })).toEqual(false);
+  });
+
+  it('should rebuild the status tree from events', async () => {
+    const rebuiltStorage = await MessageStatusStorage.fromEvents(registry, vaultStorage);
+
+    expect(rebuiltStorage.statusTree.getRoot()).toEqual(storage.statusTree.getRoot());
+    expect(rebuiltStorage.getStatus(0n)).toEqual(MessageStatus.actioned);
+  });
+});
+
+describe('Message Status Registry: Registry of a Sized Vault Tests', () => {
+  const { MessageVault: SizedMessageVault } = createMessageVault({ height: 4, capacity: 8 });
+  const { MessageStatusRegistry: SizedStatusRegistry } = createMessageStatusRegistry(SizedMessageVault);
+
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKey: PrivateKey,
+  vaultPrivateKey: PrivateKey,
+  vault: InstanceType<typeof SizedMessageVault>,
+  vaultStorage: VaultStorage,
+  registryPrivateKey: PrivateKey,
+  registry: InstanceType<typeof SizedStatusRegistry>,
+  storage: MessageStatusStorage;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) {
+      await SizedMessageVault.compile();
+      await SizedStatusRegistry.compile();
+    }
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    spyKey = Local.testAccounts[1].privateKey;
+
+    // zkapp accounts
+    vaultPrivateKey = PrivateKey.random();
+    vault = new SizedMessageVault(vaultPrivateKey.toPublicKey());
+    vaultStorage = new VaultStorage(vault);
+
+    registryPrivateKey = PrivateKey.random();
+    registry = new SizedStatusRegistry(registryPrivateKey.toPublicKey());
+    storage = new MessageStatusStorage(registry, vaultStorage);
+  });
+
+  it('should follow the tree height of its vault', () => {
+    expect(SizedStatusRegistry.StatusMerkleWitness.height).toEqual(4);
+    expect(storage.statusTree.height).toEqual(4);
+  });
+
+  it('should acknowledge a message stored in the vault', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount, 2);
+      vault.deploy();
+      registry.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, vaultPrivateKey, registryPrivateKey]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      vault.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    const { witness, update: addressUpdate } = vaultStorage.prepareStoreAddress(spyKey.toPublicKey());
+    const storeTxn = await Mina.transaction(deployerAccount, () => {
+      vault.storeAddress(spyKey.toPublicKey(), witness);
+    });
+    await storeTxn.prove();
+    await vaultStorage.applyWhenIncluded(await storeTxn.sign([deployerKey]).send(), addressUpdate);
+
+    const { addressWitness, messageWitness, update: messageUpdate } = vaultStorage.prepareStoreMessage(spyKey.toPublicKey(), message);
+    const messageTxn = await Mina.transaction(spyKey.toPublicKey(), () => {
+      vault.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    await vaultStorage.applyWhenIncluded(await messageTxn.sign([spyKey]).send(), messageUpdate);
+
+    const registryInitTxn = await Mina.transaction(deployerAccount, () => {
+      registry.initRegistry(vault.address);
+    });
+    await registryInitTxn.prove();
+    await registryInitTxn.sign([deployerKey]).send();
+
+    const { message: storedMessage, messageWitness: storedWitness, currentLeaf, statusWitness, update } = storage.prepareUpdateStatus(0n, MessageStatus.acknowledged);
+    const updateTxn = await Mina.transaction(deployerAccount, () => {
+      registry.updateStatus(storedMessage, storedWitness, currentLeaf, statusWitness, Field(MessageStatus.acknowledged));
+    });
+    await updateTxn.prove();
+    await storage.applyWhenIncluded(await updateTxn.sign([deployerKey]).send(), update);
+
+    expect(registry.statusCommitment.get()).toEqual(storage.statusTree.getRoot());
+    expect(verifyMessageStatus(registry.statusCommitment.get(), storage.getReceipt(0n))).toEqual(true);
+  });
+});
+
+describe('Message Status Registry: Registry of a Multi-Admin Vault Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKey: PrivateKey,
+  payerKey: PrivateKey,
+  adminKeys: PrivateKey[],
+  adminSet: AdminSet,
+  vaultPrivateKey: PrivateKey,
+  vault: MessageVault,
+  vaultStorage: VaultStorage,
+  registryPrivateKey: PrivateKey,
+  registry: MessageStatusRegistry,
+  storage: MessageStatusStorage;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) {
+      await MessageVault.compile();
+      await MessageStatusRegistry.compile();
+    }
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    spyKey = Local.testAccounts[1].privateKey;
+    // any funded account can submit transactions approved by the admin set
+    payerKey = Local.testAccounts[2].privateKey;
+
+    // admin set keys only sign and do not need to be funded
+    adminKeys = Array.from({ length: 3 }, () => PrivateKey.random());
+    adminSet = AdminSet.from(adminKeys.map((key) => key.toPublicKey()), 2);
+
+    // zkapp accounts
+    vaultPrivateKey = PrivateKey.random();
+    vault = new MessageVault(vaultPrivateKey.toPublicKey());
+    vaultStorage = new VaultStorage(vault);
+
+    registryPrivateKey = PrivateKey.random();
+    registry = new MessageStatusRegistry(registryPrivateKey.toPublicKey());
+    storage = new MessageStatusStorage(registry, vaultStorage);
+  });
+
+  async function sendFromPayer(call: () => void) {
+    let txn = await Mina.transaction(payerKey.toPublicKey(), call);
+    await txn.prove();
+    return txn.sign([payerKey]).send();
+  }
+
+  async function updateStatusWithApprovals(status: MessageStatus, signerKeys: PrivateKey[], signedStatus=status) {
+    let { message, messageWitness, currentLeaf, statusWitness, update } = storage.prepareUpdateStatus(0n, status);
+
+    let payload = updateStatusPayload(registry.address, message, Field(0), Field(signedStatus));
+    let approvals = AdminApprovals.sign(adminSet, payload, signerKeys);
+
+    let txId = await sendFromPayer(() => {
+      registry.updateStatusWithApprovals(message, messageWitness, currentLeaf, statusWitness, Field(status), approvals);
+    });
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy a 2-of-3 admin vault holding a message', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount, 2);
+      vault.deploy();
+      registry.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, vaultPrivateKey, registryPrivateKey]).send();
+
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      vault.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    const { witness, update: addressUpdate } = vaultStorage.prepareStoreAddress(spyKey.toPublicKey());
+    const storeTxn = await Mina.transaction(deployerAccount, () => {
+      vault.storeAddress(spyKey.toPublicKey(), witness);
+    });
+    await storeTxn.prove();
+    await vaultStorage.applyWhenIncluded(await storeTxn.sign([deployerKey]).send(), addressUpdate);
+
+    const { addressWitness, messageWitness, update: messageUpdate } = vaultStorage.prepareStoreMessage(spyKey.toPublicKey(), message);
+    const messageTxn = await Mina.transaction(spyKey.toPublicKey(), () => {
+      vault.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    await vaultStorage.applyWhenIncluded(await messageTxn.sign([spyKey]).send(), messageUpdate);
+
+    const multiAdminTxn = await Mina.transaction(deployerAccount, () => {
+      vault.enableMultiAdmin(adminSet);
+    });
+    await multiAdminTxn.prove();
+    await multiAdminTxn.sign([deployerKey]).send();
+
+    expect(vault.adminAddress.get()).toEqual(adminSet.commitment());
+  });
+
+  it('should reject a single admin or too few approvals to initialize the registry', async () => {
+    await expect(Mina.transaction(deployerAccount, () => {
+      registry.initRegistry(vault.address);
+    })).rejects.toThrowError('Only Admin is allowed to call this method!');
+
+    const approvals = AdminApprovals.sign(adminSet, initRegistryPayload(registry.address, vault.address), adminKeys.slice(0, 1));
+    await expect(sendFromPayer(() => registry.initRegistryWithApprovals(vault.address, approvals)))
+      .rejects.toThrowError('Not enough admin approvals to call this method!');
+  });
+
+  it('should bind the registry to the vault with approvals of 2 out of 3 admins', async () => {
+    const approvals = AdminApprovals.sign(adminSet, initRegistryPayload(registry.address, vault.address), adminKeys.slice(1, 3));
+    await sendFromPayer(() => registry.initRegistryWithApprovals(vault.address, approvals));
+
+    expect(registry.vaultAddress.get()).toEqual(vault.address);
+    expect(registry.statusCommitment.get()).toEqual(storage.statusTree.getRoot());
+  });
+
+  it('should reject approvals signed over another status', async () => {
+    await expect(updateStatusWithApprovals(MessageStatus.actioned, adminKeys.slice(0, 2), MessageStatus.acknowledged))
+      .rejects.toThrowError('Not enough admin approvals to call this method!');
+
+    expect(storage.getStatus(0n)).toEqual(MessageStatus.received);
+  });
+
+  it('should acknowledge a message with approvals of 2 out of 3 admins', async () => {
+    await updateStatusWithApprovals(MessageStatus.acknowledged, [adminKeys[0], adminKeys[2]]);
+
+    expect(storage.getStatus(0n)).toEqual(MessageStatus.acknowledged);
+    expect(verifyMessageStatus(registry.statusCommitment.get(), storage.getReceipt(0n))).toEqual(true);
+  });
+});
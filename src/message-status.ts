@@ -0,0 +1,340 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    Field,
+    Poseidon,
+    Provable,
+    Struct,
+    MerkleTree,
+    MerkleWitness,
+    Mina,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { AdminApprovals, requireAdmin, initRegistryPayload, updateStatusPayload } from './admin-set.js';
+import { MessageVault, emptyTreeRoot } from './message-vault.js';
+import { VaultStorage } from './vault-storage.js';
+
+export {
+    MessageStatus,
+    MessageStatusEvent,
+    MessageStatusRegistry,
+    StatusMerkleWitness,
+    createMessageStatusRegistry,
+    MessageStatusStorage,
+    StatusReceipt,
+    PendingStatusUpdate,
+    statusLeaf,
+    verifyMessageStatus,
+}
+
+/**
+ * Processing status of a stored message, a status can only move forward.
+ *
+ * - received: the message is in the vault, the default of every stored message.
+ * - acknowledged: the admin has read the message.
+ * - actioned: the admin has acted on the message.
+ */
+const MessageStatus = {
+    received: 0,
+    acknowledged: 1,
+    actioned: 2,
+} as const;
+
+type MessageStatus = typeof MessageStatus[keyof typeof MessageStatus];
+
+class MessageStatusEvent extends Struct({ index: Field, message: Field, status: Field }) {}
+
+type TreeWitness = InstanceType<ReturnType<typeof MerkleWitness>>;
+
+/**
+ * An inclusion proof of the status of a message, checked by the spy against the on-chain `statusCommitment`.
+ */
+type StatusReceipt = {
+    index: bigint;
+    message: Field;
+    status: MessageStatus;
+    witness: TreeWitness;
+}
+
+type PendingStatusUpdate = {
+    index: bigint;
+    message: Field;
+    status: MessageStatus;
+}
+
+/*
+- a status leaf is bound to the message it was set for
+    --> a received message has an empty leaf, so no update is needed when a message is stored
+    --> a leaf left over by a purged message no longer matches the message rotated in at the same index,
+        the new message is then back to received
+*/
+function statusLeaf(message: Field, status: Field) {
+    return Provable.if(status.equals(MessageStatus.received), Field(0), Poseidon.hash([message, status]));
+}
+
+/**
+ * Check a status receipt against a status commitment, e.g. `MessageStatusRegistry.statusCommitment`.
+ */
+function verifyMessageStatus(statusCommitment: Field, receipt: StatusReceipt) {
+    const leaf = statusLeaf(receipt.message, Field(receipt.status));
+
+    return receipt.witness.calculateIndex().equals(Field(receipt.index))
+        .and(receipt.witness.calculateRoot(leaf).equals(statusCommitment))
+        .toBoolean();
+}
+
+/**
+ * Build the status registry of a vault class from `createMessageVault`, its status tree has the height
+ * of the message tree of the vault.
+ */
+function createMessageStatusRegistry(vaultClass: typeof MessageVault) {
+    const { height } = vaultClass.config;
+
+    // witnesses of both the vault message tree and the status tree, they have the same height
+    class StatusMerkleWitness extends MerkleWitness(height) {}
+
+    // root of an empty status Merkle Tree
+    const emptyRoot = emptyTreeRoot(height);
+
+    /**
+     * Processing status of the messages of a vault, kept in a status tree parallel to its message tree.
+     *
+     * The vault has no state slot left, so the status tree lives in this companion contract. Its methods read
+     * the admin and the message commitment of the vault through preconditions on the vault account.
+     */
+    class MessageStatusRegistry extends VaultContract {
+        @state(PublicKey) vaultAddress = State<PublicKey>();
+        @state(Field) statusCommitment = State<Field>();
+
+        events = {
+            "Successfully updated a message status": MessageStatusEvent,
+        }
+
+        /**
+         * Bind the registry to a vault, only the admin of the vault can do so.
+         * @param vaultAddress
+         */
+        @method initRegistry(vaultAddress: PublicKey) {
+            const vault = new vaultClass(vaultAddress);
+            requireAdmin(vault.adminAddress, this.sender);
+
+            bindVault(this, vaultAddress);
+        }
+
+        /**
+         * Same as `initRegistry` for a vault governed by a k-of-n admin set.
+         * @param vaultAddress
+         * @param approvals signatures of at least `threshold` vault admins over the registry and vault addresses
+         */
+        @method initRegistryWithApprovals(vaultAddress: PublicKey, approvals: AdminApprovals) {
+            const vault = new vaultClass(vaultAddress);
+            approvals.assertApproved(vault.adminAddress.getAndRequireEquals(), initRegistryPayload(this.address, vaultAddress));
+
+            bindVault(this, vaultAddress);
+        }
+
+        /**
+         * Move a stored message to a later status.
+         * @param message the message leaf of the vault
+         * @param messageWitness witness of the message leaf in the vault message tree
+         * @param currentLeaf the current status leaf at the same index
+         * @param statusWitness witness of the status leaf
+         * @param status the new status
+         */
+        @method updateStatus(message: Field, messageWitness: StatusMerkleWitness, currentLeaf: Field, statusWitness: StatusMerkleWitness, status: Field) {
+            const vault = new vaultClass(this.vaultAddress.getAndRequireEquals());
+
+            // assert that only the admin of the vault is allowed to update a status
+            requireAdmin(vault.adminAddress, this.sender);
+
+            moveStatus(this, vault, message, messageWitness, currentLeaf, statusWitness, status);
+        }
+
+        /**
+         * Same as `updateStatus` for a vault governed by a k-of-n admin set.
+         * @param message 
+         * @param messageWitness 
+         * @param currentLeaf 
+         * @param statusWitness 
+         * @param status 
+         * @param approvals signatures of at least `threshold` vault admins over the message, its index and the new status
+         */
+        @method updateStatusWithApprovals(
+            message: Field, 
+            messageWitness: StatusMerkleWitness, 
+            currentLeaf: Field, 
+            statusWitness: StatusMerkleWitness, 
+            status: Field, 
+            approvals: AdminApprovals,
+        ) {
+            const vault = new vaultClass(this.vaultAddress.getAndRequireEquals());
+
+            const payload = updateStatusPayload(this.address, message, statusWitness.calculateIndex(), status);
+            approvals.assertApproved(vault.adminAddress.getAndRequireEquals(), payload);
+
+            moveStatus(this, vault, message, messageWitness, currentLeaf, statusWitness, status);
+        }
+
+        static readonly vaultClass = vaultClass;
+        static readonly StatusMerkleWitness = StatusMerkleWitness;
+    }
+
+    /**
+     * Bind the registry to a vault with an empty status tree, once the caller is authorized.
+     */
+    function bindVault(registry: MessageStatusRegistry, vaultAddress: PublicKey) {
+        registry.init();
+
+        registry.vaultAddress.set(vaultAddress);
+
+        // set status commitment as the root of an empty status Merkle Tree
+        registry.statusCommitment.set(emptyRoot);
+    }
+
+    /**
+     * Move a stored message to a later status once the caller is authorized, see `updateStatus`.
+     */
+    function moveStatus(
+        registry: MessageStatusRegistry, 
+        vault: MessageVault, 
+        message: Field, 
+        messageWitness: StatusMerkleWitness, 
+        currentLeaf: Field, 
+        statusWitness: StatusMerkleWitness, 
+        status: Field,
+    ) {
+        // check that the message is stored in the vault
+        message.assertNotEquals(0, 'Cannot update the status of an empty message leaf!');
+        messageWitness.calculateRoot(message).assertEquals(vault.messageCommitment.getAndRequireEquals(), 'Message is not stored in the vault!');
+
+        let index = statusWitness.calculateIndex();
+        index.assertEquals(messageWitness.calculateIndex(), 'Both messageWitness and statusWitness should point to the same leaf index!');
+
+        // check that the off-chain status storage is in sync
+        registry.statusCommitment.getAndRequireEquals().assertEquals(statusWitness.calculateRoot(currentLeaf), 'Off-chain status merkle tree is out of sync!');
+
+        // any leaf that is not bound to the message, e.g. an empty leaf, stands for received
+        const isAcknowledged = currentLeaf.equals(statusLeaf(message, Field(MessageStatus.acknowledged)));
+        const isActioned = currentLeaf.equals(statusLeaf(message, Field(MessageStatus.actioned)));
+        const currentStatus = Provable.if(isActioned, Field(MessageStatus.actioned), Provable.if(isAcknowledged, Field(MessageStatus.acknowledged), Field(MessageStatus.received)));
+
+        status.assertLessThanOrEqual(MessageStatus.actioned, 'Unknown message status!');
+        status.assertGreaterThan(currentStatus, 'A message status can only move forward!');
+
+        registry.statusCommitment.set(statusWitness.calculateRoot(statusLeaf(message, status)));
+
+        registry.emitEvent("Successfully updated a message status", new MessageStatusEvent({ index, message, status }));
+    }
+
+    return { MessageStatusRegistry, StatusMerkleWitness };
+}
+
+const defaultRegistry = createMessageStatusRegistry(MessageVault);
+
+// the registry of the default vault, a value and a type under the same name like `MessageVault`
+const MessageStatusRegistry = defaultRegistry.MessageStatusRegistry;
+type MessageStatusRegistry = InstanceType<typeof MessageStatusRegistry>;
+
+const StatusMerkleWitness = defaultRegistry.StatusMerkleWitness;
+type StatusMerkleWitness = InstanceType<typeof StatusMerkleWitness>;
+
+/**
+ * Off-chain storage client of a `MessageStatusRegistry`, reading the messages from the storage of its vault.
+ */
+class MessageStatusStorage {
+    readonly statusTree: MerkleTree;
+    private statuses: Map<bigint, PendingStatusUpdate>;
+    private registryClass: typeof MessageStatusRegistry;
+
+    /**
+     * The status tree follows the size of the vault of the registry, see `createMessageStatusRegistry`.
+     */
+    constructor(public zkapp: MessageStatusRegistry, public vaultStorage: VaultStorage) {
+        this.registryClass = zkapp.constructor as typeof MessageStatusRegistry;
+
+        this.statusTree = new MerkleTree(this.registryClass.vaultClass.config.height);
+        this.statuses = new Map();
+    }
+
+    /**
+     * Rebuild the status tree of a registry by replaying its on-chain events.
+     *
+     * Throws if the rebuilt root does not match the on-chain commitment.
+     */
+    static async fromEvents(zkapp: MessageStatusRegistry, vaultStorage: VaultStorage) {
+        const storage = new MessageStatusStorage(zkapp, vaultStorage);
+        const events = await zkapp.fetchEvents();
+
+        for (const { type, event } of events) {
+            if (type === "Successfully updated a message status") {
+                const { index, message, status } = event.data as unknown as MessageStatusEvent;
+                storage.applyUpdate({ index: index.toBigInt(), message, status: Number(status.toBigInt()) as MessageStatus });
+            }
+        }
+
+        if (!storage.statusTree.getRoot().equals(zkapp.statusCommitment.get()).toBoolean()) {
+            throw Error('Off-chain status merkle tree is out of sync!');
+        }
+
+        return storage;
+    }
+
+    /**
+     * The status of the message currently stored at an index.
+     */
+    getStatus(index: bigint): MessageStatus {
+        const entry = this.statuses.get(index);
+        const message = this.vaultStorage.messageTree.getNode(0, index);
+
+        // a status set for a purged message does not carry over
+        return entry !== undefined && entry.message.equals(message).toBoolean() ? entry.status : MessageStatus.received;
+    }
+
+    /**
+     * Build the inputs of `updateStatus`, the returned update is applied once the transaction is included.
+     */
+    prepareUpdateStatus(index: bigint, status: MessageStatus) {
+        const message = this.vaultStorage.messageTree.getNode(0, index);
+        if (message.equals(0).toBoolean()) throw Error('Cannot update the status of an empty message leaf!');
+
+        const { StatusMerkleWitness } = this.registryClass;
+        const messageWitness = new StatusMerkleWitness(this.vaultStorage.messageTree.getWitness(index));
+        const currentLeaf = this.statusTree.getNode(0, index);
+        const statusWitness = new StatusMerkleWitness(this.statusTree.getWitness(index));
+
+        const update: PendingStatusUpdate = { index, message, status };
+
+        return { message, messageWitness, currentLeaf, statusWitness, update };
+    }
+
+    /**
+     * An inclusion proof of the status of a message for its spy.
+     * 
+     * Note: a received message stored over the leftover status of a purged message only gets a valid receipt
+     * once its own status is updated.
+     */
+    getReceipt(index: bigint): StatusReceipt {
+        return {
+            index,
+            message: this.vaultStorage.messageTree.getNode(0, index),
+            status: this.getStatus(index),
+            witness: new this.registryClass.StatusMerkleWitness(this.statusTree.getWitness(index)),
+        };
+    }
+
+    applyUpdate(update: PendingStatusUpdate) {
+        this.statusTree.setLeaf(update.index, statusLeaf(update.message, Field(update.status)));
+        this.statuses.set(update.index, update);
+    }
+
+    async applyWhenIncluded(txId: Mina.TransactionId, update: PendingStatusUpdate) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        this.applyUpdate(update);
+    }
+}
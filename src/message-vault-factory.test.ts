@@ -0,0 +1,153 @@
+import { 
+  MessageVault,
+  SpyMerkleWitness,
+  MessageMerkleWitness,
+  VaultConfig,
+  createMessageVault,
+  emptyTreeRoot,
+} from './message-vault';
+import { VaultStorage } from './vault-storage';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+  MerkleTree,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Message vault factory tests', () => {
+  it('derive the empty root of the default vault from its height', () => {
+    expect(MessageVault.config).toEqual({ height: 8, capacity: 100 });
+    expect(emptyTreeRoot(8)).toEqual(Field(14472842460125086645444909368571209079194991627904749620726822601198914470820n));
+  });
+
+  it('reject an invalid tree height', () => {
+    const expectedErrorMessage = 'Invalid vault config! The tree height must be an integer between 2 and 64!';
+    expect(() => createMessageVault({ height: 1, capacity: 1 })).toThrowError(expectedErrorMessage);
+    expect(() => createMessageVault({ height: 4.5, capacity: 1 })).toThrowError(expectedErrorMessage);
+  });
+
+  it('reject a capacity that does not fit in the trees', () => {
+    expect(() => createMessageVault({ height: 4, capacity: 9 })).toThrowError('Invalid vault config! The capacity must be between 1 and 8 for a tree of height 4!');
+    expect(() => createMessageVault({ height: 4, capacity: 0 })).toThrow();
+  });
+
+  it('return witness classes matching the tree height', () => {
+    const { SpyMerkleWitness, MessageMerkleWitness } = createMessageVault({ height: 12, capacity: 1000 });
+
+    expect(SpyMerkleWitness.height).toEqual(12);
+    expect(MessageMerkleWitness.height).toEqual(12);
+  });
+});
+
+describe.each<VaultConfig>([
+  { height: 3, capacity: 3 },
+  { height: 5, capacity: 6 },
+])('Message Vault: Vault of height $height and capacity $capacity', (config) => {
+  const { MessageVault: SizedMessageVault } = createMessageVault(config);
+
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKey: PrivateKey,
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: InstanceType<typeof SizedMessageVault>,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await SizedMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use a pre-funded test account as a spy to avoid funding it
+    spyKey = Local.testAccounts[1].privateKey;
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new SizedMessageVault(zkappAddress);
+
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) {
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy and initialize the vault with the empty root of its height', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    expect(zkapp.addressCommitment.get()).toEqual(emptyTreeRoot(config.height));
+    expect(zkapp.messageCommitment.get()).toEqual(emptyTreeRoot(config.height));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should store addresses up to the capacity', async () => {
+    await storeAddress(spyKey.toPublicKey());
+    for (let i=1; i<config.capacity; i++) await storeAddress(PrivateKey.random().toPublicKey());
+
+    expect(zkapp.spyCount.get()).toEqual(Field(config.capacity - 1));
+  });
+
+  it('should reject an address once the capacity is reached', async () => {
+    const expectedErrorMessage = `Reached maximum storage cap of ${config.capacity} addresses!`;
+    await expect(storeAddress(PrivateKey.random().toPublicKey())).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should store a message with witnesses of the vault height', async () => {
+    let senderAddress = spyKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, Field(100000));
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should reject a witness of the default tree height', async () => {
+    // a height 8 tree holding the same leaves as the local trees of the vault
+    const addressTree = new MerkleTree(8);
+    addressTree.setLeaf(0n, VaultStorage.hashAddress(spyKey.toPublicKey()));
+    const messageTree = new MerkleTree(8);
+
+    const addressWitness = new SpyMerkleWitness(addressTree.getWitness(0n));
+    const messageWitness = new MessageMerkleWitness(messageTree.getWitness(0n));
+
+    let messageTxn = Mina.transaction(spyKey.toPublicKey(), () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+    });
+    await expect(messageTxn).rejects.toThrowError('Your account is not eligible to send a message!');
+  });
+});
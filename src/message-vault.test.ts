@@ -4,7 +4,24 @@ import {
   SpyMerkleWitness,
   MessageMerkleWitness,
   validateMessage,
+  relayMessagePayload,
+  committedMessageLeaf,
 } from './message-vault';
+import { VaultStorage, RelayedMessage } from './vault-storage';
+import { VaultMessage } from './message-codec';
+import { countFlagTallies } from './flag-tallies';
+import { VaultPhases } from './vault-phases';
+import { 
+  AdminSet,
+  AdminApprovals,
+  storeAddressPayload,
+  updateAdminSetPayload,
+  setPhasesPayload,
+  setRewardPayload,
+  revokeAddressPayload,
+  rotateAddressPayload,
+  transferAdminPayload,
+} from './admin-set';
 import { 
   Field,
   Mina,
@@ -13,6 +30,10 @@ import {
   AccountUpdate,
   MerkleTree,
   Poseidon,
+  Permissions,
+  UInt32,
+  UInt64,
+  Signature,
 } from 'o1js';
 
 const proofsEnabled = false;
@@ -295,6 +316,19 @@ describe('Message Vault: Message Storage Tests', () => {
     
     const messageCount = zkapp.messageCount.get();
     expect(messageCount).toEqual(Field(21));
+
+    // decode the flags of the messages stored in the off-chain message tree
+    const storedMessagesFlags: boolean[][] = [];
+    for (let i=0n; i<messageTree.leafCount; i++) {
+      const storedMessage = messageTree.getNode(0, i);
+      if (storedMessage.equals(0).toBoolean()) continue;
+
+      storedMessagesFlags.push(VaultMessage.decode(storedMessage).flags.toArray().map((flag) => flag.toBoolean()));
+    }
+
+    expect(storedMessagesFlags.length).toEqual(21);
+    expect(zkapp.getFlagTallies()).toEqual(countFlagTallies(storedMessagesFlags));
+    expect(zkapp.getFlagTallies().flag1).toEqual(21n);
   });
 
   it('should reject non-eligibile address to send a message', async () => {
@@ -354,6 +388,1275 @@ describe('Message Vault: Message Storage Tests', () => {
   });
 });
 
+describe('Message Vault: Address Revocation Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 5).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeSpyAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(senderKey: PrivateKey) { 
+    let senderAddress = senderKey.toPublicKey();
+
+    // use a fixed valid message
+    let message = Field(123423432423423434100000n);
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function revokeSpyAddress(spyAddress: PublicKey, senderKey=deployerKey) { 
+    let { addressDigest, addressWitness, message, messageWitness, updates } = storage.prepareRevokeAddress(spyAddress);
+
+    let revokeTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.revokeAddress(addressDigest, addressWitness, message, messageWitness);
+    });
+    
+    await revokeTxn.prove();
+    let txId = await revokeTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, ...updates);
+  }
+
+  async function rotateSpyAddress(index: bigint, spyAddress: PublicKey) { 
+    let { currentLeaf, witness, update } = storage.prepareRotateAddress(index, spyAddress);
+
+    let rotateTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.rotateAddress(spyAddress, currentLeaf, witness);
+    });
+    
+    await rotateTxn.prove();
+    let txId = await rotateTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should successfully store 3 spy addresses', async () => {
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    for (const spyKey of spyKeys.slice(0, 3)) await storeSpyAddress(spyKey.toPublicKey());
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+  });
+
+  it('should reject tx for any sender except admin to revoke an address', async () => {
+    await expect(revokeSpyAddress(spyKeys[0].toPublicKey(), spyKeys[1])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should revoke an address before it sent a message', async () => {
+    await revokeSpyAddress(spyKeys[0].toPublicKey());
+
+    expect(storage.addressTree.getNode(0, 0n)).toEqual(Field(0));
+    expect(storage.getAddressIndex(spyKeys[0].toPublicKey())).toBeUndefined();
+    expect(zkapp.messageCount.get()).toEqual(Field(0));
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should reject a message from a revoked address', async () => {
+    let revokedAddress = spyKeys[0].toPublicKey();
+    let addressWitness = new SpyMerkleWitness(storage.addressTree.getWitness(0n));
+    let messageWitness = new MessageMerkleWitness(storage.messageTree.getWitness(0n));
+
+    await expect(Mina.transaction(revokedAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(100000), messageWitness);
+    })).rejects.toThrowError('Your account is not eligible to send a message!');
+  });
+
+  it('should reject revoking an already revoked address leaf', async () => {
+    let addressWitness = new SpyMerkleWitness(storage.addressTree.getWitness(0n));
+    let messageWitness = new MessageMerkleWitness(storage.messageTree.getWitness(0n));
+
+    await expect(Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.revokeAddress(Field(0), addressWitness, Field(0), messageWitness);
+    })).rejects.toThrowError('Cannot revoke an empty address leaf!');
+  });
+
+  it('should revoke an address after it sent a message and purge the message', async () => {
+    await storeMessage(spyKeys[1]);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+
+    await revokeSpyAddress(spyKeys[1].toPublicKey());
+
+    expect(storage.addressTree.getNode(0, 1n)).toEqual(Field(0));
+    expect(storage.messageTree.getNode(0, 1n)).toEqual(Field(0));
+    expect(zkapp.messageCount.get()).toEqual(Field(0));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should rotate a revoked slot to a new key that can send a message', async () => {
+    await rotateSpyAddress(1n, spyKeys[3].toPublicKey());
+
+    expect(storage.getAddressIndex(spyKeys[3].toPublicKey())).toEqual(1n);
+    
+    // rotation reuses the slot so the address count is unchanged
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+
+    await storeMessage(spyKeys[3]);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should rotate an active address to a new key at the same index', async () => {
+    const newSpyKey = PrivateKey.random();
+    await rotateSpyAddress(2n, newSpyKey.toPublicKey());
+
+    expect(storage.getAddressIndex(spyKeys[2].toPublicKey())).toBeUndefined();
+    expect(storage.getAddressIndex(newSpyKey.toPublicKey())).toEqual(2n);
+    expect(zkapp.spyAddress.get()).toEqual(Poseidon.hash(newSpyKey.toPublicKey().toFields()));
+  });
+
+  it('should reject rotating an address at a non-allocated index', async () => {
+    await expect(rotateSpyAddress(3n, PrivateKey.random().toPublicKey())).rejects.toThrowError('Cannot rotate an address at a non-allocated index!');
+  });
+
+  it('should rebuild the off-chain storage from events after revocations and rotations', async () => {
+    const rebuiltStorage = await VaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+    expect(rebuiltStorage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+    expect(rebuiltStorage.getAddressIndex(spyKeys[3].toPublicKey())).toEqual(1n);
+  });
+});
+
+describe('Message Vault: Admin Governance Tests', () => {
+  let deployerKey: PrivateKey,
+  newAdminKey: PrivateKey,
+  payerKey: PrivateKey,
+  adminKeys: PrivateKey[],
+  adminSet: AdminSet,
+  nextAdminKeys: PrivateKey[],
+  nextAdminSet: AdminSet,
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    newAdminKey = Local.testAccounts[1].privateKey;
+    // any funded account can submit transactions approved by the admin set
+    payerKey = Local.testAccounts[2].privateKey;
+
+    // admin set keys only sign and do not need to be funded
+    adminKeys = Array.from({ length: 3 }, () => PrivateKey.random());
+    adminSet = AdminSet.from(adminKeys.map((key) => key.toPublicKey()), 2);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeSpyAddress(senderKey: PrivateKey) { 
+    let spyAddress = PrivateKey.random().toPublicKey();
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeSpyAddressWithApprovals(signerKeys: PrivateKey[], signedAdminSet=adminSet) { 
+    let spyAddress = PrivateKey.random().toPublicKey();
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let payload = storeAddressPayload(zkappAddress, spyAddress, Field(update.index));
+    let approvals = AdminApprovals.sign(signedAdminSet, payload, signerKeys);
+
+    let storeTxn = await Mina.transaction(payerKey.toPublicKey(), () => {
+      zkapp.storeAddressWithApprovals(spyAddress, witness, approvals);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([payerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+
+    return { spyAddress, witness, approvals };
+  }
+
+  async function sendFromPayer(call: () => void) {
+    let txn = await Mina.transaction(payerKey.toPublicKey(), call);
+    await txn.prove();
+    return txn.sign([payerKey]).send();
+  }
+
+  async function enableMultiAdmin(senderKey: PrivateKey, newAdminSet: AdminSet) { 
+    let txn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.enableMultiAdmin(newAdminSet);
+    });
+    
+    await txn.prove();
+    await txn.sign([senderKey]).send();
+  }
+
+  it('should hand off admin rights to a new key', async () => {
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    let txn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.transferAdmin(newAdminKey.toPublicKey());
+    });
+    await txn.prove();
+    await txn.sign([deployerKey]).send();
+
+    expect(zkapp.adminAddress.get()).toEqual(Poseidon.hash(newAdminKey.toPublicKey().toFields()));
+  });
+
+  it('should reject the previous admin and accept the new admin to store an address', async () => {
+    await expect(storeSpyAddress(deployerKey)).rejects.toThrowError('Only Admin is allowed to call this method!');
+    await storeSpyAddress(newAdminKey);
+  });
+
+  it('should reject tx for any sender except admin to transfer admin rights', async () => {
+    await expect(Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.transferAdmin(deployerKey.toPublicKey());
+    })).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should reject an admin call that claims the admin as sender without its signature', async () => {
+    // `this.sender` is a witness, a prover can claim any sender while paying the fee with another key
+    Object.defineProperty(zkapp, 'sender', { get: () => newAdminKey.toPublicKey(), configurable: true });
+    try {
+      const txn = await Mina.transaction(payerKey.toPublicKey(), () => {
+        zkapp.transferAdmin(payerKey.toPublicKey());
+      });
+      await txn.prove();
+      await expect(txn.sign([payerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(zkapp.adminAddress.get()).toEqual(Poseidon.hash(newAdminKey.toPublicKey().toFields()));
+  });
+
+  it('should reject an invalid admin set', async () => {
+    const adminAddresses = adminKeys.map((key) => key.toPublicKey());
+
+    await expect(enableMultiAdmin(newAdminKey, AdminSet.from(adminAddresses, 0)))
+      .rejects.toThrowError('Invalid admin set! The approval threshold must be at least 1!');
+
+    await expect(enableMultiAdmin(newAdminKey, AdminSet.from(adminAddresses, 4)))
+      .rejects.toThrowError('Invalid admin set! The approval threshold cannot exceed the number of admins!');
+
+    await expect(enableMultiAdmin(newAdminKey, AdminSet.from([adminAddresses[0], adminAddresses[0]], 2)))
+      .rejects.toThrowError('Invalid admin set! Admin keys must be unique!');
+  });
+
+  it('should switch the vault to 2-of-3 admin governance', async () => {
+    await enableMultiAdmin(newAdminKey, adminSet);
+
+    expect(zkapp.adminAddress.get()).toEqual(adminSet.commitment());
+
+    // a single admin can no longer store an address
+    await expect(storeSpyAddress(newAdminKey)).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should reject storing an address with fewer approvals than the threshold', async () => {
+    await expect(storeSpyAddressWithApprovals(adminKeys.slice(0, 1))).rejects.toThrowError('Not enough admin approvals to call this method!');
+
+    // signatures of keys outside the admin set are not counted
+    await expect(storeSpyAddressWithApprovals([adminKeys[0], PrivateKey.random()])).rejects.toThrowError('Not enough admin approvals to call this method!');
+  });
+
+  it('should store an address with approvals of 2 out of 3 admins', async () => {
+    await storeSpyAddressWithApprovals(adminKeys.slice(1, 3));
+    expect(zkapp.spyCount.get()).toEqual(Field(1));
+  });
+
+  it('should reject replaying approvals of an already stored address', async () => {
+    let { spyAddress, approvals } = await storeSpyAddressWithApprovals(adminKeys.slice(0, 2));
+
+    // the approvals were signed for the previous storage index
+    let nextIndex = zkapp.spyCount.get().add(1).toBigInt();
+    let witness = new SpyMerkleWitness(storage.addressTree.getWitness(nextIndex));
+    await expect(Mina.transaction(payerKey.toPublicKey(), () => {
+      zkapp.storeAddressWithApprovals(spyAddress, witness, approvals);
+    })).rejects.toThrowError('Not enough admin approvals to call this method!');
+  });
+
+  it('should reject approvals of an admin set that does not match the on-chain commitment', async () => {
+    const otherAdminSet = AdminSet.from(adminKeys.map((key) => key.toPublicKey()), 1);
+    await expect(storeSpyAddressWithApprovals(adminKeys, otherAdminSet)).rejects.toThrowError('Admin set does not match the on-chain admin commitment!');
+  });
+
+  it('should set the phases and the reward with approvals of the admin set', async () => {
+    const phases = VaultPhases.from(1000, 2000);
+    const phasesPayload = setPhasesPayload(zkappAddress, phases);
+    await sendFromPayer(() => zkapp.setPhasesWithApprovals(phases, AdminApprovals.sign(adminSet, phasesPayload, adminKeys.slice(0, 2))));
+
+    expect(zkapp.getPhases()).toEqual(phases);
+
+    const reward = UInt64.from(1_000_000);
+    const rewardPayload = setRewardPayload(zkappAddress, UInt64.zero, reward);
+    await expect(sendFromPayer(() => zkapp.setRewardWithApprovals(reward, AdminApprovals.sign(adminSet, rewardPayload, adminKeys.slice(0, 1)))))
+      .rejects.toThrowError('Not enough admin approvals to call this method!');
+
+    const rewardApprovals = AdminApprovals.sign(adminSet, rewardPayload, adminKeys.slice(1, 3));
+    await sendFromPayer(() => zkapp.setRewardWithApprovals(reward, rewardApprovals));
+
+    expect(zkapp.getReward()).toEqual(reward);
+
+    // the approvals were signed against the previous reward
+    await expect(sendFromPayer(() => zkapp.setRewardWithApprovals(UInt64.from(2_000_000), rewardApprovals)))
+      .rejects.toThrowError('Not enough admin approvals to call this method!');
+  });
+
+  it('should revoke and rotate an address with approvals of the admin set', async () => {
+    const { spyAddress } = await storeSpyAddressWithApprovals(adminKeys.slice(0, 2));
+
+    const { addressDigest, addressWitness, message, messageWitness, updates } = storage.prepareRevokeAddress(spyAddress);
+    const storageIndex = addressWitness.calculateIndex();
+    const revokePayload = revokeAddressPayload(zkappAddress, addressDigest, storageIndex);
+    const revokeApprovals = AdminApprovals.sign(adminSet, revokePayload, adminKeys.slice(0, 2));
+
+    let txId = await sendFromPayer(() => zkapp.revokeAddressWithApprovals(addressDigest, addressWitness, message, messageWitness, revokeApprovals));
+    await storage.applyWhenIncluded(txId, ...updates);
+
+    expect(storage.addressTree.getNode(0, storageIndex.toBigInt())).toEqual(Field(0));
+    expect(zkapp.addressCommitment.get()).toEqual(storage.addressTree.getRoot());
+
+    // rotate a new key into the revoked slot
+    const newSpyAddress = PrivateKey.random().toPublicKey();
+    const { currentLeaf, witness, update } = storage.prepareRotateAddress(storageIndex.toBigInt(), newSpyAddress);
+    const rotatePayload = rotateAddressPayload(zkappAddress, currentLeaf, newSpyAddress, storageIndex);
+    const rotateApprovals = AdminApprovals.sign(adminSet, rotatePayload, adminKeys.slice(1, 3));
+
+    // the approvals only cover the approved key
+    await expect(Mina.transaction(payerKey.toPublicKey(), () => {
+      zkapp.rotateAddressWithApprovals(PrivateKey.random().toPublicKey(), currentLeaf, witness, rotateApprovals);
+    })).rejects.toThrowError('Not enough admin approvals to call this method!');
+
+    txId = await sendFromPayer(() => zkapp.rotateAddressWithApprovals(newSpyAddress, currentLeaf, witness, rotateApprovals));
+    await storage.applyWhenIncluded(txId, update);
+
+    expect(storage.addressTree.getNode(0, storageIndex.toBigInt())).toEqual(Poseidon.hash(newSpyAddress.toFields()));
+    expect(zkapp.addressCommitment.get()).toEqual(storage.addressTree.getRoot());
+  });
+
+  it('should hand off admin rights to a new admin set with approvals of the current one', async () => {
+    nextAdminKeys = Array.from({ length: 2 }, () => PrivateKey.random());
+    nextAdminSet = AdminSet.from(nextAdminKeys.map((key) => key.toPublicKey()), 1);
+
+    const payload = updateAdminSetPayload(zkappAddress, adminSet.commitment(), nextAdminSet.commitment());
+    const approvals = AdminApprovals.sign(adminSet, payload, [adminKeys[0], adminKeys[2]]);
+
+    let txn = await Mina.transaction(payerKey.toPublicKey(), () => {
+      zkapp.updateAdminSet(nextAdminSet, approvals);
+    });
+    await txn.prove();
+    await txn.sign([payerKey]).send();
+
+    expect(zkapp.adminAddress.get()).toEqual(nextAdminSet.commitment());
+
+    // the previous admin set is no longer allowed to store addresses
+    await expect(storeSpyAddressWithApprovals(adminKeys)).rejects.toThrowError('Admin set does not match the on-chain admin commitment!');
+    await storeSpyAddressWithApprovals(nextAdminKeys.slice(1), nextAdminSet);
+  });
+
+  it('should hand off a k-of-n vault back to a single admin with approvals', async () => {
+    const newAdmin = deployerKey.toPublicKey();
+    const payload = transferAdminPayload(zkappAddress, nextAdminSet.commitment(), newAdmin);
+    await sendFromPayer(() => zkapp.transferAdminWithApprovals(newAdmin, AdminApprovals.sign(nextAdminSet, payload, nextAdminKeys.slice(0, 1))));
+
+    expect(zkapp.adminAddress.get()).toEqual(Poseidon.hash(newAdmin.toFields()));
+
+    // the single admin is back in charge and the admin set can no longer approve admin actions
+    await storeSpyAddress(deployerKey);
+    await expect(storeSpyAddressWithApprovals(nextAdminKeys, nextAdminSet)).rejects.toThrowError('Admin set does not match the on-chain admin commitment!');
+  });
+});
+
+describe('Message Vault: Phase Tests', () => {
+  let Local: ReturnType<typeof Mina.LocalBlockchain>,
+  deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  const phases = VaultPhases.from(20, 30);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 5).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  function moveToBlock(height: number) {
+    Local.setBlockchainLength(UInt32.from(height));
+  }
+
+  async function setPhases(vaultPhases: VaultPhases, senderKey=deployerKey) {
+    let phasesTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.setPhases(vaultPhases);
+    });
+
+    await phasesTxn.prove();
+    await phasesTxn.sign([senderKey]).send();
+  }
+
+  async function storeSpyAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function prepareMessageTxn(senderKey: PrivateKey) {
+    let senderAddress = senderKey.toPublicKey();
+
+    // use a fixed valid message
+    let message = Field(123423432423423434100000n);
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+
+    return { messageTxn: messageTxn.sign([senderKey]), update };
+  }
+
+  async function storeMessage(senderKey: PrivateKey) { 
+    let { messageTxn, update } = await prepareMessageTxn(senderKey);
+    let txId = await messageTxn.send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy a vault without phases', async () => {
+    moveToBlock(10);
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    expect(zkapp.getPhases()).toEqual(VaultPhases.from(0, 0));
+    expect(zkapp.getPhases().isSet().toBoolean()).toEqual(false);
+  });
+
+  it('should reject tx for any sender except admin to set the phases', async () => {
+    await expect(setPhases(phases, spyKeys[0])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should reject an enrollment deadline that does not come before the submission deadline', async () => {
+    const expectedErrorMessage = 'The enrollment deadline must come before the submission deadline!';
+    await expect(setPhases(VaultPhases.from(30, 30))).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should set the phases', async () => {
+    await setPhases(phases);
+
+    expect(zkapp.getPhases()).toEqual(phases);
+    expect(zkapp.getFlagTallies().flag1).toEqual(0n);
+  });
+
+  it('should reject setting the phases again', async () => {
+    await expect(setPhases(VaultPhases.from(40, 50))).rejects.toThrowError('Vault phases are already set!');
+  });
+
+  it('should store addresses up to the enrollment deadline', async () => {
+    await storeSpyAddress(spyKeys[0].toPublicKey());
+    await storeSpyAddress(spyKeys[1].toPublicKey());
+
+    moveToBlock(20);
+    await storeSpyAddress(spyKeys[2].toPublicKey());
+
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+  });
+
+  it('should reject a message during the enrollment window', async () => {
+    await expect(storeMessage(spyKeys[0])).rejects.toThrowError('Message submission is not open yet!');
+  });
+
+  it('should reject an address after the enrollment deadline', async () => {
+    moveToBlock(21);
+    await expect(storeSpyAddress(spyKeys[3].toPublicKey())).rejects.toThrowError('Address enrollment is closed!');
+  });
+
+  it('should store messages up to the submission deadline', async () => {
+    await storeMessage(spyKeys[0]);
+
+    moveToBlock(30);
+    await storeMessage(spyKeys[1]);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+    expect(zkapp.getFlagTallies().flag1).toEqual(2n);
+    // the tallies do not leak into the packed deadlines
+    expect(zkapp.getPhases()).toEqual(phases);
+  });
+
+  it('should reject a message proven in time but included after the submission deadline', async () => {
+    let { messageTxn } = await prepareMessageTxn(spyKeys[2]);
+
+    moveToBlock(31);
+    await expect(messageTxn.send()).rejects.toThrowError('Protocol_state_precondition_unsatisfied');
+  });
+
+  it('should reject a message after the submission deadline', async () => {
+    await expect(storeMessage(spyKeys[2])).rejects.toThrowError('Message submission is closed!');
+  });
+
+  it('should freeze both commitments once the vault is sealed', async () => {
+    let { addressDigest, addressWitness, message, messageWitness } = storage.prepareRevokeAddress(spyKeys[0].toPublicKey());
+
+    let revokeTxn = Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.revokeAddress(addressDigest, addressWitness, message, messageWitness);
+    });
+    await expect(revokeTxn).rejects.toThrowError('Vault is sealed!');
+
+    await expect(storeSpyAddress(spyKeys[3].toPublicKey())).rejects.toThrowError('Address enrollment is closed!');
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+});
+
+describe('Message Vault: Reward Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  payoutAddress: PublicKey,
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  const reward = UInt64.from(1_000_000_000);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+    payoutAddress = Local.testAccounts[4].publicKey;
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeSpyAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function setReward(amount: UInt64, senderKey=deployerKey) {
+    let rewardTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.setReward(amount);
+    });
+
+    await rewardTxn.prove();
+    await rewardTxn.sign([senderKey]).send();
+  }
+
+  async function storeMessage(senderKey: PrivateKey, message: Field, payout?: PublicKey) { 
+    let senderAddress = senderKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      if (payout) zkapp.checkAndStoreMessageWithPayout(addressWitness, message, messageWitness, payout);
+      else zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should store 3 spy addresses in a vault without rewards', async () => {
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    for (const spyKey of spyKeys) await storeSpyAddress(spyKey.toPublicKey());
+    expect(zkapp.getReward()).toEqual(UInt64.zero);
+  });
+
+  it('should reject tx for any sender except admin to set the reward', async () => {
+    await expect(setReward(reward, spyKeys[0])).rejects.toThrowError('Only Admin is allowed to call this method!');
+  });
+
+  it('should fund the vault and set the reward', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+    let fundTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.createSigned(deployerAccount).send({ to: zkappAddress, amount: reward.mul(2) });
+    });
+    await fundTxn.sign([deployerKey]).send();
+
+    await setReward(reward);
+
+    expect(zkapp.getReward()).toEqual(reward);
+    expect(Mina.getBalance(zkappAddress)).toEqual(reward.mul(2));
+  });
+
+  it('should pay the reward to the sender of a message', async () => {
+    const spyAddress = spyKeys[0].toPublicKey();
+    const spyBalance = Mina.getBalance(spyAddress);
+
+    await storeMessage(spyKeys[0], Field(123423432423423434100000n), spyAddress);
+
+    expect(Mina.getBalance(spyAddress)).toEqual(spyBalance.add(reward));
+    expect(Mina.getBalance(zkappAddress)).toEqual(reward);
+  });
+
+  it('should reject a payout to a sender that did not sign the transaction', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+    const spyAddress = spyKeys[1].toPublicKey();
+    const message = Field(123423432423423434100000n);
+    const { addressWitness, messageWitness } = storage.prepareStoreMessage(spyAddress, message);
+
+    // `this.sender` is a witness, a prover can claim the slot of another spy while paying the fee with its own key
+    Object.defineProperty(zkapp, 'sender', { get: () => spyAddress, configurable: true });
+    try {
+      const messageTxn = await Mina.transaction(deployerAccount, () => {
+        zkapp.checkAndStoreMessageWithPayout(addressWitness, message, messageWitness, deployerAccount);
+      });
+      await messageTxn.prove();
+      await expect(messageTxn.sign([deployerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(Mina.getBalance(zkappAddress)).toEqual(reward);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should pay nothing for a rejected message', async () => {
+    const spyBalance = Mina.getBalance(spyKeys[2].toPublicKey());
+
+    // flag 2 is true and flag 3 is false
+    await expect(storeMessage(spyKeys[2], Field(1234234324234234340_010_000n), spyKeys[2].toPublicKey())).rejects.toThrowError('Invalid Message! Rule2 is violated!');
+
+    expect(Mina.getBalance(spyKeys[2].toPublicKey())).toEqual(spyBalance);
+    expect(Mina.getBalance(zkappAddress)).toEqual(reward);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should reject a second payout for the same slot', async () => {
+    const spyAddress = spyKeys[2].toPublicKey();
+    const spyBalance = Mina.getBalance(spyAddress);
+
+    // an empty message would leave the message leaf empty for another paid submission
+    await expect(storeMessage(spyKeys[2], Field(0), spyAddress)).rejects.toThrowError('Cannot store an empty message!');
+
+    const expectedErrorMessage = 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!';
+    await expect(storeMessage(spyKeys[0], Field(123423432423423434100000n), spyKeys[0].toPublicKey())).rejects.toThrowError(expectedErrorMessage);
+
+    expect(Mina.getBalance(spyAddress)).toEqual(spyBalance);
+    expect(Mina.getBalance(zkappAddress)).toEqual(reward);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+  });
+
+  it('should pay the reward to the payout address named by the sender', async () => {
+    const spyBalance = Mina.getBalance(spyKeys[1].toPublicKey());
+    const payoutBalance = Mina.getBalance(payoutAddress);
+
+    await storeMessage(spyKeys[1], Field(123423432423423434100000n), payoutAddress);
+
+    expect(Mina.getBalance(spyKeys[1].toPublicKey())).toEqual(spyBalance);
+    expect(Mina.getBalance(payoutAddress)).toEqual(payoutBalance.add(reward));
+    expect(Mina.getBalance(zkappAddress)).toEqual(UInt64.zero);
+  });
+
+  it('should reject a message when the vault balance is too low to pay the reward', async () => {
+    const spyBalance = Mina.getBalance(spyKeys[2].toPublicKey());
+
+    const expectedErrorMessage = 'Vault balance is too low to pay the message reward!';
+    await expect(storeMessage(spyKeys[2], Field(123423432423423434100000n), spyKeys[2].toPublicKey())).rejects.toThrowError(expectedErrorMessage);
+
+    expect(Mina.getBalance(spyKeys[2].toPublicKey())).toEqual(spyBalance);
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should store a message without payout from an empty vault and pay nothing', async () => {
+    const spyBalance = Mina.getBalance(spyKeys[2].toPublicKey());
+
+    // the reward is still set, but only the submission methods with a payout pay it
+    await storeMessage(spyKeys[2], Field(123423432423423434100000n));
+
+    expect(Mina.getBalance(spyKeys[2].toPublicKey())).toEqual(spyBalance);
+    expect(Mina.getBalance(zkappAddress)).toEqual(UInt64.zero);
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+  });
+});
+
+describe('Message Vault: Relayed Submission Tests', () => {
+  let deployerKey: PrivateKey,
+  relayerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  payoutAddress: PublicKey,
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  const reward = UInt64.from(1_000_000_000);
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // any funded account can relay a message
+    relayerKey = Local.testAccounts[1].privateKey;
+    payoutAddress = Local.testAccounts[2].publicKey;
+
+    // spy keys only sign and do not need to be funded
+    spyKeys = Array.from({ length: 3 }, () => PrivateKey.random());
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeSpyAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function relayMessage(relayedMessage: RelayedMessage) { 
+    let { sender, signature, addressWitness, message, messageWitness, payoutAddress, update } = storage.prepareRelayMessage(relayedMessage);
+
+    let relayTxn = await Mina.transaction(relayerKey.toPublicKey(), () => {
+      zkapp.relayMessage(sender, signature, addressWitness, message, messageWitness, payoutAddress);
+    });
+
+    await relayTxn.prove();
+    let txId = await relayTxn.sign([relayerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should store 3 unfunded spy addresses in a funded vault with rewards', async () => {
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    for (const spyKey of spyKeys) await storeSpyAddress(spyKey.toPublicKey());
+
+    const deployerAccount = deployerKey.toPublicKey();
+    let fundTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.createSigned(deployerAccount).send({ to: zkappAddress, amount: reward.mul(3) });
+      zkapp.setReward(reward);
+    });
+    await fundTxn.prove();
+    await fundTxn.sign([deployerKey]).send();
+
+    expect(zkapp.getReward()).toEqual(reward);
+  });
+
+  it('should store a message signed by an unfunded spy and submitted by a relayer', async () => {
+    const payoutBalance = Mina.getBalance(payoutAddress);
+
+    await relayMessage(storage.signRelayedMessage(spyKeys[0], message, payoutAddress));
+
+    expect(storage.messageTree.getNode(0, 0n)).toEqual(message);
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(Mina.hasAccount(spyKeys[0].toPublicKey())).toEqual(false);
+    expect(Mina.getBalance(payoutAddress)).toEqual(payoutBalance.add(reward));
+  });
+
+  it('should reject a relayer resubmitting a signed message', async () => {
+    const relayedMessage = storage.signRelayedMessage(spyKeys[1], message, payoutAddress);
+    await relayMessage(relayedMessage);
+
+    const expectedErrorMessage = 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!';
+    await expect(relayMessage(relayedMessage)).rejects.toThrowError(expectedErrorMessage);
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+  });
+
+  it('should reject a relayer changing the signed message', async () => {
+    const relayedMessage = storage.signRelayedMessage(spyKeys[2], message, payoutAddress);
+
+    const expectedErrorMessage = 'Relayed message has an invalid spy signature!';
+    await expect(relayMessage({ ...relayedMessage, message: Field(100000) })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a relayer redirecting the reward', async () => {
+    const relayedMessage = storage.signRelayedMessage(spyKeys[2], message, payoutAddress);
+
+    const expectedErrorMessage = 'Relayed message has an invalid spy signature!';
+    await expect(relayMessage({ ...relayedMessage, payoutAddress: relayerKey.toPublicKey() })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a message signed by another key than the spy', async () => {
+    const relayedMessage = storage.signRelayedMessage(spyKeys[2], message, payoutAddress);
+    const forgedSignature = Signature.create(PrivateKey.random(), relayMessagePayload(zkappAddress, Field(2), message, payoutAddress));
+
+    const expectedErrorMessage = 'Relayed message has an invalid spy signature!';
+    await expect(relayMessage({ ...relayedMessage, signature: forgedSignature })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a message signed by a key that is not enrolled', async () => {
+    const intruderKey = PrivateKey.random();
+    const signature = Signature.create(intruderKey, relayMessagePayload(zkappAddress, Field(2), message, payoutAddress));
+    const addressWitness = new SpyMerkleWitness(storage.addressTree.getWitness(2n));
+    const messageWitness = new MessageMerkleWitness(storage.messageTree.getWitness(2n));
+
+    await expect(Mina.transaction(relayerKey.toPublicKey(), () => {
+      zkapp.relayMessage(intruderKey.toPublicKey(), signature, addressWitness, message, messageWitness, payoutAddress);
+    })).rejects.toThrowError('Your account is not eligible to send a message!');
+  });
+
+  it('should reject a relayed empty message, which would leave the leaf empty for a replay', async () => {
+    const payoutBalance = Mina.getBalance(payoutAddress);
+
+    await expect(relayMessage(storage.signRelayedMessage(spyKeys[2], Field(0), payoutAddress))).rejects.toThrowError('Cannot store an empty message!');
+
+    expect(Mina.getBalance(payoutAddress)).toEqual(payoutBalance);
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+  });
+
+  it('should still accept the untampered signed message', async () => {
+    await relayMessage(storage.signRelayedMessage(spyKeys[2], message, payoutAddress));
+
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+    expect(Mina.getBalance(zkappAddress)).toEqual(UInt64.zero);
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+});
+
+describe('Message Vault: Commit-Reveal Submission Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKeys: PrivateKey[],
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  const message = Field(123423432423423434100000n);
+  const salts: Field[] = [];
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 4).map((account) => account.privateKey);
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeSpyAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function commitMessage(spyKey: PrivateKey) { 
+    let { addressWitness, messageWitness, salt, update } = storage.prepareCommitMessage(spyKey.toPublicKey(), message);
+
+    let commitTxn = await Mina.transaction(spyKey.toPublicKey(), () => {
+      zkapp.commitMessage(addressWitness, message, salt, messageWitness);
+    });
+
+    await commitTxn.prove();
+    let txId = await commitTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+
+    return salt;
+  }
+
+  async function revealMessage(spyKey: PrivateKey, salt: Field) { 
+    let { addressWitness, messageWitness, update } = storage.prepareRevealMessage(spyKey.toPublicKey(), message, salt);
+
+    let revealTxn = await Mina.transaction(spyKey.toPublicKey(), () => {
+      zkapp.revealMessage(addressWitness, message, salt, messageWitness);
+    });
+
+    await revealTxn.prove();
+    let txId = await revealTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  // bypass the off-chain checks to send a reveal the contract has to reject
+  async function forceRevealMessage(spyKey: PrivateKey, salt: Field) { 
+    let { addressWitness, messageWitness } = storage.prepareStoreMessage(spyKey.toPublicKey(), message);
+
+    let revealTxn = await Mina.transaction(spyKey.toPublicKey(), () => {
+      zkapp.revealMessage(addressWitness, message, salt, messageWitness);
+    });
+
+    await revealTxn.prove();
+    await revealTxn.sign([spyKey]).send();
+  }
+
+  it('should store 3 spy addresses', async () => {
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+
+    for (const spyKey of spyKeys) await storeSpyAddress(spyKey.toPublicKey());
+
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+  });
+
+  it('should store a commitment without disclosing the message', async () => {
+    salts.push(await commitMessage(spyKeys[0]));
+
+    const commitment = committedMessageLeaf(zkappAddress, Field(0), message, salts[0]);
+    expect(storage.messageTree.getNode(0, 0n)).toEqual(commitment);
+    expect(zkapp.messageCommitment.get()).toEqual(storage.messageTree.getRoot());
+    expect(zkapp.message.get()).toEqual(Field(0));
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(zkapp.getFlagTallies().flag1).toEqual(0n);
+  });
+
+  it('should reject a second commitment of the same spy', async () => {
+    const expectedErrorMessage = 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!';
+    await expect(commitMessage(spyKeys[0])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a commitment to an invalid message', async () => {
+    let { addressWitness, messageWitness } = storage.prepareCommitMessage(spyKeys[1].toPublicKey(), Field(900000));
+
+    await expect(Mina.transaction(spyKeys[1].toPublicKey(), () => {
+      zkapp.commitMessage(addressWitness, Field(900000), Field.random(), messageWitness);
+    })).rejects.toThrowError('Error Validating Message! All flags are not of size 1 bit!');
+  });
+
+  it('should reject a commitment to an empty message', async () => {
+    let { addressWitness, messageWitness } = storage.prepareCommitMessage(spyKeys[1].toPublicKey(), Field(0));
+
+    await expect(Mina.transaction(spyKeys[1].toPublicKey(), () => {
+      zkapp.commitMessage(addressWitness, Field(0), Field.random(), messageWitness);
+    })).rejects.toThrowError('Cannot store an empty message!');
+  });
+
+  it('should reject a commitment that claims another spy as sender without its signature', async () => {
+    const payerKey = spyKeys[1];
+    let { addressWitness, messageWitness } = storage.prepareCommitMessage(spyKeys[2].toPublicKey(), message);
+
+    // `this.sender` is a witness, a prover can claim any sender while paying the fee with another key
+    Object.defineProperty(zkapp, 'sender', { get: () => spyKeys[2].toPublicKey(), configurable: true });
+    try {
+      const commitTxn = await Mina.transaction(payerKey.toPublicKey(), () => {
+        zkapp.commitMessage(addressWitness, message, Field.random(), messageWitness);
+      });
+      await commitTxn.prove();
+      await expect(commitTxn.sign([payerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(zkapp.messageCommitment.get()).toEqual(storage.messageTree.getRoot());
+  });
+
+  it('should reject a reveal with a wrong salt', async () => {
+    const wrongSalt = salts[0].add(1);
+    expect(() => storage.prepareRevealMessage(spyKeys[0].toPublicKey(), message, wrongSalt)).toThrowError('Message and salt do not match the committed message');
+
+    const expectedErrorMessage = 'Revealed message does not match the committed leaf or off-chain message Merkle Tree is out of sync!';
+    await expect(forceRevealMessage(spyKeys[0], wrongSalt)).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a reveal from a spy without a commitment', async () => {
+    const expectedErrorMessage = 'Revealed message does not match the committed leaf or off-chain message Merkle Tree is out of sync!';
+    await expect(forceRevealMessage(spyKeys[2], salts[0])).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should list the unrevealed commitments for the admin', async () => {
+    salts.push(await commitMessage(spyKeys[1]));
+
+    const pending = await storage.pendingCommitments();
+    expect(pending.map(({ index }) => index)).toEqual([0n, 1n]);
+    expect(pending[1].addressDigest).toEqual(VaultStorage.hashAddress(spyKeys[1].toPublicKey()));
+    expect(pending[1].commitment).toEqual(storage.messageTree.getNode(0, 1n));
+  });
+
+  it('should reject a reveal that claims the committing spy as sender without its signature', async () => {
+    const payerKey = spyKeys[2];
+    let { addressWitness, messageWitness } = storage.prepareRevealMessage(spyKeys[0].toPublicKey(), message, salts[0]);
+
+    Object.defineProperty(zkapp, 'sender', { get: () => spyKeys[0].toPublicKey(), configurable: true });
+    try {
+      const revealTxn = await Mina.transaction(payerKey.toPublicKey(), () => {
+        zkapp.revealMessage(addressWitness, message, salts[0], messageWitness);
+      });
+      await revealTxn.prove();
+      await expect(revealTxn.sign([payerKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(zkapp.message.get()).toEqual(Field(0));
+    expect(zkapp.getFlagTallies().flag1).toEqual(0n);
+  });
+
+  it('should reveal a committed message', async () => {
+    await revealMessage(spyKeys[0], salts[0]);
+
+    expect(storage.messageTree.getNode(0, 0n)).toEqual(message);
+    expect(zkapp.messageCommitment.get()).toEqual(storage.messageTree.getRoot());
+    expect(zkapp.message.get()).toEqual(message);
+    // the leaf was already counted by its commitment
+    expect(zkapp.messageCount.get()).toEqual(Field(2));
+    expect(zkapp.getFlagTallies().flag1).toEqual(1n);
+
+    const pending = await storage.pendingCommitments();
+    expect(pending.map(({ index }) => index)).toEqual([1n]);
+  });
+
+  it('should reject a double reveal', async () => {
+    expect(() => storage.prepareRevealMessage(spyKeys[0].toPublicKey(), message, salts[0])).toThrowError('Message and salt do not match the committed message');
+
+    const expectedErrorMessage = 'Revealed message does not match the committed leaf or off-chain message Merkle Tree is out of sync!';
+    await expect(forceRevealMessage(spyKeys[0], salts[0])).rejects.toThrowError(expectedErrorMessage);
+    expect(zkapp.getFlagTallies().flag1).toEqual(1n);
+  });
+
+  it('should purge an unrevealed commitment along with its revoked address', async () => {
+    let { addressDigest, addressWitness, message, messageWitness, updates } = storage.prepareRevokeAddress(spyKeys[1].toPublicKey());
+
+    let revokeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.revokeAddress(addressDigest, addressWitness, message, messageWitness);
+    });
+    await revokeTxn.prove();
+    let txId = await revokeTxn.sign([deployerKey]).send();
+    await storage.applyWhenIncluded(txId, ...updates);
+
+    expect(zkapp.messageCount.get()).toEqual(Field(1));
+    expect(await storage.pendingCommitments()).toEqual([]);
+  });
+
+  it('should rebuild the message tree from commit and reveal events', async () => {
+    const rebuiltStorage = await VaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.messageTree.getRoot()).toEqual(storage.messageTree.getRoot());
+  });
+});
+
+describe('Message Vault: Initialization and Permissions Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  intruderKey: PrivateKey,
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    intruderKey = Local.testAccounts[1].privateKey;
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    await localDeploy(zkapp, deployerKey, zkappPrivateKey);
+    await initializeMessageVault(zkapp, deployerKey);
+  });
+
+  async function sendSignedZkappUpdate(update: (accountUpdate: AccountUpdate) => void) {
+    const txn = await Mina.transaction(deployerAccount, () => {
+      update(AccountUpdate.createSigned(zkappAddress));
+    });
+    await txn.sign([deployerKey, zkappPrivateKey]).send();
+  }
+
+  it('should deploy with hardened permissions', async () => {
+    const { permissions } = Mina.getAccount(zkappAddress);
+
+    expect(permissions.editState).toEqual(Permissions.proof());
+    expect(permissions.send).toEqual(Permissions.proof());
+    expect(permissions.setVerificationKey).toEqual(Permissions.impossible());
+    expect(permissions.setPermissions).toEqual(Permissions.impossible());
+  });
+
+  async function reinitialize(senderKey: PrivateKey) {
+    const initTxn = await Mina.transaction(senderKey.toPublicKey(), () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([senderKey]).send();
+  }
+
+  it('should reject a second initialization by the admin', async () => {
+    // `init()` requires `provedState` to be false, the first `initVault` proof has set it
+    await expect(reinitialize(deployerKey)).rejects.toThrowError('Account_proved_state_precondition_unsatisfied');
+  });
+
+  it('should reject a second initialization taking over the admin', async () => {
+    await expect(reinitialize(intruderKey)).rejects.toThrowError('Account_proved_state_precondition_unsatisfied');
+
+    expect(zkapp.adminAddress.get()).toEqual(Poseidon.hash(deployerAccount.toFields()));
+  });
+
+  it('should reject a direct state edit signed with the zkapp key', async () => {
+    const stateEdit = sendSignedZkappUpdate((accountUpdate) => {
+      AccountUpdate.setValue(accountUpdate.body.update.appState[0], Poseidon.hash(intruderKey.toPublicKey().toFields()));
+    });
+    await expect(stateEdit).rejects.toThrowError('Update_not_permitted_app_state');
+
+    expect(zkapp.adminAddress.get()).toEqual(Poseidon.hash(deployerAccount.toFields()));
+  });
+
+  it('should reject a verification key change', async () => {
+    const upgrade = sendSignedZkappUpdate((accountUpdate) => {
+      accountUpdate.account.verificationKey.set({ data: '', hash: Field(1) });
+    });
+    await expect(upgrade).rejects.toThrowError("Cannot update field 'verificationKey'");
+  });
+
+  it('should reject a permissions change', async () => {
+    const permissionsChange = sendSignedZkappUpdate((accountUpdate) => {
+      accountUpdate.account.permissions.set({ ...Permissions.default(), editState: Permissions.signature() });
+    });
+    await expect(permissionsChange).rejects.toThrowError("Cannot update field 'permissions'");
+  });
+
+  it('should allow permissions changes under the signature upgrade policy', async () => {
+    const upgradableZkappKey = PrivateKey.random();
+    const upgradableZkapp = new MessageVault(upgradableZkappKey.toPublicKey());
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      upgradableZkapp.deploy({ upgradePolicy: 'signature' });
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, upgradableZkappKey]).send();
+
+    const permissionsTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.createSigned(upgradableZkapp.address).account.permissions.set({ ...Permissions.default(), setZkappUri: Permissions.impossible() });
+    });
+    await permissionsTxn.sign([deployerKey, upgradableZkappKey]).send();
+
+    expect(Mina.getAccount(upgradableZkapp.address).permissions.setZkappUri).toEqual(Permissions.impossible());
+  });
+});
+
 describe('Message validation tests', () => {
   describe('flags format', () => {
     it('valid case', () => {
@@ -1,75 +1,663 @@
 import { 
     State,
     state,
+    AccountUpdate,
     method,
     PublicKey,
     Field,
-    SmartContract,
+    Bool,
+    UInt64,
     Poseidon,
     MerkleWitness,
+    MerkleTree,
     Provable,
-    Bool,
+    Struct,
+    Scalar,
+    Signature,
+    ZkProgram,
 } from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import {
+    AdminSet,
+    AdminApprovals,
+    storeAddressPayload,
+    updateAdminSetPayload,
+    setPhasesPayload,
+    setRewardPayload,
+    revokeAddressPayload,
+    rotateAddressPayload,
+    transferAdminPayload,
+    signedSenderDigest,
+    requireAdmin,
+} from './admin-set.js';
+import { validateMessage } from './message-rules.js';
+import { VaultMessage } from './message-codec.js';
+import { MessagePayload, EncryptedMessage } from './message-encryption.js';
+import { BatchedMessage, MessageBatch, createMessageBatchProgram } from './message-batch.js';
+import { maxTally, flagTalliesIncrement, unpackFlagTallies } from './flag-tallies.js';
+import { VaultPhases, requireBlockHeightWindow } from './vault-phases.js';
+import { PackedState } from './packed-state.js';
 
 export {
     MessageVault,
     SpyMerkleWitness,
     MessageMerkleWitness,
+    AddressStoredEvent,
+    MessageStoredEvent,
+    EncryptedMessageStoredEvent,
     validateMessage,
+    relayMessagePayload,
+    committedMessageLeaf,
+    VaultConfig,
+    defaultVaultConfig,
+    createMessageVault,
+    emptyTreeRoot,
 }
 
-class SpyMerkleWitness extends MerkleWitness(8) {}
-class MessageMerkleWitness extends MerkleWitness(8) {}
+class AddressStoredEvent extends Struct({ index: Field, addressDigest: Field }) {}
+class MessageStoredEvent extends Struct({ index: Field, message: Field }) {}
+class EncryptedMessageStoredEvent extends Struct({ index: Field, encryptedMessage: EncryptedMessage }) {}
+
+/**
+ * Size of a message vault.
+ *
+ * - height: height of the address and message Merkle Trees, which hold `2^(height - 1)` leaves.
+ * - capacity: maximum number of stored addresses, at most the number of leaves.
+ */
+type VaultConfig = {
+    height: number;
+    capacity: number;
+}
 
-class MessageVault extends SmartContract {
-    @state(Field) adminAddress = State<Field>();
+const defaultVaultConfig: VaultConfig = { height: 8, capacity: 100 };
+
+/**
+ * Fields signed by a spy to let a relayer submit a message through `relayMessage`.
+ *
+ * The payload binds the vault, the slot of the spy, the message and the reward payout,
+ * so a relayer can neither change the message nor redirect the reward.
+ */
+function relayMessagePayload(vaultAddress: PublicKey, messageIndex: Field, message: Field, payoutAddress: PublicKey) {
+    // the leading tag keeps spy signatures apart from the admin approval payloads
+    return [Field(3), ...vaultAddress.toFields(), messageIndex, message, ...payoutAddress.toFields()];
+}
 
-    @state(Field) addressCommitment = State<Field>();
-    @state(Field) spyAddress = State<Field>();
-    @state(Field) spyCount = State<Field>();
-    
-    @state(Field) messageCommitment = State<Field>();
-    @state(Field) message = State<Field>();
-    @state(Field) messageCount = State<Field>();
+/**
+ * Message leaf stored by `commitMessage` until the message is revealed with `revealMessage`.
+ *
+ * The commitment binds the vault and the slot of the spy, so a commitment copied to another slot
+ * cannot be revealed there once its author discloses the message and the salt.
+ */
+function committedMessageLeaf(vaultAddress: PublicKey, messageIndex: Field, message: Field, salt: Field) {
+    // the leading tag keeps commitments apart from the other hashed message leaves
+    return Poseidon.hash([Field(4), ...vaultAddress.toFields(), messageIndex, message, salt]);
+}
+
+/**
+ * Root of an empty Merkle Tree of the given height.
+ */
+function emptyTreeRoot(height: number) {
+    return new MerkleTree(height).getRoot();
+}
+
+/**
+ * Build a `MessageVault` contract class and its witness classes for a vault of the given size.
+ *
+ * Each call returns new classes, so a factory result should be created once and reused.
+ */
+function createMessageVault(config: VaultConfig) {
+    const { height, capacity } = config;
+
+    if (!Number.isInteger(height) || height < 2 || height > 64) {
+        throw Error(`Invalid vault config! The tree height must be an integer between 2 and 64!`);
+    }
 
-    events = {
-        "Successfully received a valid message": Field,
+    if (!Number.isInteger(capacity) || capacity < 1 || BigInt(capacity) > 2n ** BigInt(height - 1)) {
+        throw Error(`Invalid vault config! The capacity must be between 1 and ${2n ** BigInt(height - 1)} for a tree of height ${height}!`);
     }
 
-    @method initVault() {
-        super.init();
+    if (capacity > maxTally) {
+        throw Error(`Invalid vault config! The capacity cannot exceed ${maxTally} so that the flag tallies cannot overflow!`);
+    }
+
+    const emptyRoot = emptyTreeRoot(height);
+
+    class SpyMerkleWitness extends MerkleWitness(height) {}
+    class MessageMerkleWitness extends MerkleWitness(height) {}
+
+    const MessageBatchProgram = createMessageBatchProgram(`MessageBatch${height}`, SpyMerkleWitness, MessageMerkleWitness);
+    class MessageBatchProof extends ZkProgram.Proof(MessageBatchProgram) {}
+
+    class MessageVault extends VaultContract {
+        @state(Field) adminAddress = State<Field>();
+
+        @state(Field) addressCommitment = State<Field>();
+        @state(Field) spyAddress = State<Field>();
+        @state(Field) spyCount = State<Field>();
+    
+        @state(Field) messageCommitment = State<Field>();
+        @state(Field) message = State<Field>();
+        @state(Field) messageCount = State<Field>();
+
+        // flag tallies, phase deadlines and message reward packed into a single field, see `PackedState`
+        @state(Field) packedState = State<Field>();
+
+        events = {
+            "Successfully received a valid message": Field,
+            "Successfully stored an address": AddressStoredEvent,
+            "Successfully stored a message": MessageStoredEvent,
+            "Successfully revoked an address": Field,
+            "Successfully rotated an address": AddressStoredEvent,
+            "Successfully updated the admin": Field,
+            "Successfully stored an encrypted message": EncryptedMessageStoredEvent,
+            "Successfully committed a message": MessageStoredEvent,
+            "Successfully stored a batched message": BatchedMessage,
+            "Successfully set the vault phases": VaultPhases,
+            "Successfully set the message reward": UInt64,
+        }
+
+        @method initVault() {
+            super.init();
+
+            // the admin is set as the zkapp initializer, who signs the transaction
+            this.adminAddress.set(signedSenderDigest(this.sender));
+
+            // set address commitment as the root of an empty address Merkle Tree
+            this.addressCommitment.set(emptyRoot);
+
+            this.spyCount.set(Field(-1));
+            this.spyAddress.set(Field(0));
+
+            // set message commitment as the root of an empty message Merkle Tree
+            this.messageCommitment.set(emptyRoot);
+            this.message.set(Field(0));
+            this.messageCount.set(Field(0));
+            this.packedState.set(Field(0));
+        }
+
+        /**
+         * Read the number of stored messages that raised each flag.
+         * 
+         * Encrypted messages are not counted, and messages purged by `revokeAddress` stay counted:
+         * a message leaf cannot be decoded on-chain.
+         */
+        getFlagTallies() {
+            return unpackFlagTallies(this.packedState.get());
+        }
+
+        /**
+         * Read the enrollment and submission deadlines, both at zero for a vault without phases.
+         */
+        getPhases() {
+            return PackedState.read(this.packedState.get()).phases;
+        }
+
+        /**
+         * Read the reward in nanomina paid for each accepted message, zero for a vault without rewards.
+         */
+        getReward() {
+            return PackedState.read(this.packedState.get()).reward;
+        }
+
+        /**
+         * Set the enrollment and submission deadlines of the vault, see `VaultPhases`.
+         * 
+         * The phases can only be set once, so an admin cannot reopen a window or unseal the vault.
+         * @param phases inclusive block heights closing the enrollment and the submission windows
+         */
+        @method setPhases(phases: VaultPhases) {
+            // assert that only the admin is allowed to set the phases
+            requireAdmin(this.adminAddress, this.sender);
+
+            initPhases(this, phases);
+        }
+
+        /**
+         * Same as `setPhases` for a vault governed by a k-of-n admin set.
+         * @param phases 
+         * @param approvals signatures of at least `threshold` admins over the phases
+         */
+        @method setPhasesWithApprovals(phases: VaultPhases, approvals: AdminApprovals) {
+            approvals.assertApproved(this.adminAddress.getAndRequireEquals(), setPhasesPayload(this.address, phases));
+
+            initPhases(this, phases);
+        }
+
+        /**
+         * Set the reward paid from the vault balance for each message stored with `checkAndStoreMessageWithPayout` or `relayMessage`.
+         * 
+         * The admin funds the vault with a plain payment to its address, and can change the reward at any time.
+         * @param reward amount in nanomina, zero to stop paying rewards
+         */
+        @method setReward(reward: UInt64) {
+            // assert that only the admin is allowed to set the reward
+            requireAdmin(this.adminAddress, this.sender);
+
+            updateReward(this, reward);
+        }
+
+        /**
+         * Same as `setReward` for a vault governed by a k-of-n admin set.
+         * @param reward 
+         * @param approvals signatures of at least `threshold` admins over the current and new reward
+         */
+        @method setRewardWithApprovals(reward: UInt64, approvals: AdminApprovals) {
+            const currentReward = PackedState.unpack(this.packedState.getAndRequireEquals()).reward;
+            approvals.assertApproved(this.adminAddress.getAndRequireEquals(), setRewardPayload(this.address, currentReward, reward));
+
+            updateReward(this, reward);
+        }
+
+        /**
+         * We take a witness with index the same as the storage count
+         * @param spy 
+         * @param spyWitness 
+         */
+        @method storeAddress(spyAddress: PublicKey, addressWitness: SpyMerkleWitness) {
+            // assert that only the admin is allowed to store addresses
+            requireAdmin(this.adminAddress, this.sender);
+
+            enrollAddress(this, spyAddress, addressWitness);
+        }   
+
+        /**
+         * Same as `storeAddress` for a vault governed by a k-of-n admin set.
+         * @param spyAddress 
+         * @param addressWitness 
+         * @param approvals signatures of at least `threshold` admins over the spy address and its storage index
+         */
+        @method storeAddressWithApprovals(spyAddress: PublicKey, addressWitness: SpyMerkleWitness, approvals: AdminApprovals) {
+            const payload = storeAddressPayload(this.address, spyAddress, addressWitness.calculateIndex());
+            approvals.assertApproved(this.adminAddress.getAndRequireEquals(), payload);
+
+            enrollAddress(this, spyAddress, addressWitness);
+        }
+
+        /**
+         * Hand off admin rights of a single-admin vault to a new key.
+         * @param newAdmin 
+         */
+        @method transferAdmin(newAdmin: PublicKey) {
+            // assert that only the admin is allowed to transfer admin rights
+            requireAdmin(this.adminAddress, this.sender);
+
+            handOffAdmin(this, newAdmin);
+        }
+
+        /**
+         * Hand off admin rights of a k-of-n vault back to a single admin key.
+         * @param newAdmin 
+         * @param approvals signatures of at least `threshold` admins over the current admin set commitment and the new admin
+         */
+        @method transferAdminWithApprovals(newAdmin: PublicKey, approvals: AdminApprovals) {
+            const currentCommitment = this.adminAddress.getAndRequireEquals();
+            approvals.assertApproved(currentCommitment, transferAdminPayload(this.address, currentCommitment, newAdmin));
+
+            handOffAdmin(this, newAdmin);
+        }
+
+        /**
+         * Switch a single-admin vault to k-of-n governance.
+         * 
+         * The admin set commitment replaces the admin address digest, so methods restricted to a single admin
+         * are rejected from then on and admin actions go through their `*WithApprovals` variant.
+         * @param adminSet 
+         */
+        @method enableMultiAdmin(adminSet: AdminSet) {
+            // assert that only the admin is allowed to enable multi-admin governance
+            requireAdmin(this.adminAddress, this.sender);
+
+            adminSet.assertValid();
+
+            const adminSetCommitment = adminSet.commitment();
+            this.adminAddress.set(adminSetCommitment);
+
+            this.emitEvent("Successfully updated the admin", adminSetCommitment);
+        }
+
+        /**
+         * Replace the k-of-n admin set with approvals of the current one.
+         * @param newAdminSet 
+         * @param approvals signatures of at least `threshold` current admins over the current and new admin set commitments
+         */
+        @method updateAdminSet(newAdminSet: AdminSet, approvals: AdminApprovals) {
+            newAdminSet.assertValid();
+
+            const currentCommitment = this.adminAddress.getAndRequireEquals();
+            const newCommitment = newAdminSet.commitment();
+            approvals.assertApproved(currentCommitment, updateAdminSetPayload(this.address, currentCommitment, newCommitment));
+
+            this.adminAddress.set(newCommitment);
+
+            this.emitEvent("Successfully updated the admin", newCommitment);
+        }
+
+        @method checkAndStoreMessage(addressWitness: SpyMerkleWitness, message: Field, messageWitness: MessageMerkleWitness) { 
+            // validate message flags
+            const flags = validateMessage(message); 
+
+            storeMessage(this, this.sender, addressWitness, message, messageWitness, flags);
+        }
+
+        /**
+         * Same as `checkAndStoreMessage`, and pays the message reward from the vault balance to an address named by the sender.
+         * 
+         * Rewards are opt-in: only this method and `relayMessage` pay them, so the other submission methods
+         * neither send from the vault nor depend on its balance.
+         * @param addressWitness 
+         * @param message 
+         * @param messageWitness 
+         * @param payoutAddress an existing account receiving the reward, e.g. the sender itself
+         */
+        @method checkAndStoreMessageWithPayout(addressWitness: SpyMerkleWitness, message: Field, messageWitness: MessageMerkleWitness, payoutAddress: PublicKey) { 
+            // the spy signs the transaction, a forged `this.sender` would collect the reward of another spy's slot
+            AccountUpdate.createSigned(this.sender);
+
+            // validate message flags
+            const flags = validateMessage(message); 
+
+            const reward = storeMessage(this, this.sender, addressWitness, message, messageWitness, flags);
+            payReward(this, reward, payoutAddress);
+        }
+
+        /**
+         * Same as `checkAndStoreMessage` with the spy signature in place of the transaction sender.
+         * 
+         * Any relayer can pay for and send the transaction, so the spy needs no funded account and is not
+         * linked to the fee payer. The spy signs `relayMessagePayload` offline, see `VaultStorage.signRelayedMessage`.
+         * 
+         * A relayer cannot replay the signature: the message leaf of the spy must be empty and an empty message
+         * is rejected, so the signed message fills the leaf and is stored at most once, and any change to the
+         * message or the payout address breaks the signature.
+         * 
+         * Note: a message purged by `revokeAddress` can be relayed again if the same key is rotated back in, 
+         * so a revoked spy should be rotated in with a fresh key.
+         * @param spyAddress the enrolled spy address that signed the message
+         * @param signature spy signature over `relayMessagePayload`
+         * @param addressWitness 
+         * @param message 
+         * @param messageWitness 
+         * @param payoutAddress an existing account receiving the reward, e.g. the relayer as a fee
+         */
+        @method relayMessage(
+            spyAddress: PublicKey, 
+            signature: Signature, 
+            addressWitness: SpyMerkleWitness, 
+            message: Field, 
+            messageWitness: MessageMerkleWitness, 
+            payoutAddress: PublicKey,
+        ) { 
+            const payload = relayMessagePayload(this.address, messageWitness.calculateIndex(), message, payoutAddress);
+            signature.verify(spyAddress, payload).assertTrue('Relayed message has an invalid spy signature!');
+
+            // validate message flags
+            const flags = validateMessage(message); 
+
+            const reward = storeMessage(this, spyAddress, addressWitness, message, messageWitness, flags);
+            payReward(this, reward, payoutAddress);
+        }
+
+        /**
+         * Same as `checkAndStoreMessage` for a typed message of any supported version.
+         * 
+         * A version 0 message is stored as its legacy decimal encoding, so both methods store the same leaf for it.
+         * @param addressWitness 
+         * @param message 
+         * @param messageWitness 
+         */
+        @method checkAndStoreVaultMessage(addressWitness: SpyMerkleWitness, message: VaultMessage, messageWitness: MessageMerkleWitness) { 
+            // validate message version, payload and flags
+            message.assertValid();
+
+            storeMessage(this, this.sender, addressWitness, message.encode(), messageWitness, message.flags.toArray());
+        }
+
+        /**
+         * Store a multi-field payload encrypted to the admin public key.
+         * 
+         * The plaintext and the ephemeral key are private inputs: the circuit validates the plaintext message
+         * and encrypts it, and only a commitment to the cipher text is stored in the message tree and in `message`.
+         * The cipher text itself is emitted as an event for the admin to decrypt.
+         * 
+         * The flags of the plaintext are not tallied, the change of the public tallies would disclose them.
+         * 
+         * Note: the payload is encrypted to a single key, so this method is only available in single-admin mode.
+         * @param addressWitness 
+         * @param payload the plaintext payload, its `message` field must pass `validateMessage`
+         * @param ephemeralKey the random key of the encryption key exchange, it must never be reused
+         * @param adminPublicKey the admin public key behind the on-chain `adminAddress`
+         * @param messageWitness 
+         */
+        @method checkAndStoreEncryptedMessage(
+            addressWitness: SpyMerkleWitness, 
+            payload: MessagePayload, 
+            ephemeralKey: Scalar, 
+            adminPublicKey: PublicKey, 
+            messageWitness: MessageMerkleWitness,
+        ) {
+            // assert that the payload is encrypted to the admin
+            const adminAddressDigest = Poseidon.hash(adminPublicKey.toFields());
+            this.adminAddress.getAndRequireEquals().assertEquals(adminAddressDigest, 'Message must be encrypted to the admin public key!');
+
+            // validate the flags of the plaintext message
+            validateMessage(payload.message);
+
+            // no flag is tallied for an encrypted message
+            const encryptedMessage = EncryptedMessage.encrypt(payload, adminPublicKey, ephemeralKey);
+            storeMessage(this, this.sender, addressWitness, encryptedMessage.commitment(), messageWitness, []);
+
+            this.emitEvent("Successfully stored an encrypted message", new EncryptedMessageStoredEvent({ index: messageWitness.calculateIndex(), encryptedMessage }));
+        }
+
+        /**
+         * Store a salted commitment to a message in place of the message, see `committedMessageLeaf`.
+         * 
+         * The message and the salt are private inputs: the circuit validates the hidden message and only its
+         * commitment is stored in the message leaf of the sender, neither `message` nor the events disclose it.
+         * 
+         * The leaf is taken from now on and counted in `messageCount`, so the spy can neither commit twice nor
+         * store another message, and `revokeAddress` purges a commitment like any stored message.
+         * The flags are tallied once the message is disclosed with `revealMessage`, which pays no reward.
+         * @param addressWitness 
+         * @param message the hidden message, it must pass `validateMessage`
+         * @param salt a random field kept by the spy until the reveal
+         * @param messageWitness 
+         */
+        @method commitMessage(addressWitness: SpyMerkleWitness, message: Field, salt: Field, messageWitness: MessageMerkleWitness) {
+            // the hidden message is validated now so that a reveal cannot fail on its content
+            message.assertNotEquals(0, 'Cannot store an empty message!');
+            validateMessage(message);
+
+            const { phases } = PackedState.unpack(this.packedState.getAndRequireEquals());
+            requireBlockHeightWindow(this, phases.submissionWindow(), 'Message submission is not open yet!', 'Message submission is closed!');
+
+            // the spy signs the transaction, a forged `this.sender` would take the slot of another spy
+            const messageIndex = requireMessageSlot(this, signedSenderDigest(this.sender), addressWitness, messageWitness);
+
+            const commitment = committedMessageLeaf(this.address, messageIndex, message, salt);
+            fillMessageLeaf(this, messageWitness, commitment);
+
+            // the commitment is already public as a leaf, the event lets the admin follow unrevealed commitments
+            this.emitEvent("Successfully committed a message", new MessageStoredEvent({ index: messageIndex, message: commitment }));
+        }
+
+        /**
+         * Disclose a message stored with `commitMessage`, it is then handled like a message from `checkAndStoreMessage`.
+         * 
+         * The message and the salt must hash to the committed leaf of the sender, which is replaced by the message.
+         * A revealed leaf holds no commitment anymore, so a message can only be revealed once.
+         * 
+         * Both phases take place within the submission window, a commitment left unrevealed when the vault is sealed
+         * stays in the message tree for good, see `VaultStorage.pendingCommitments`.
+         * @param addressWitness 
+         * @param message the committed message
+         * @param salt the salt of the commitment
+         * @param messageWitness 
+         */
+        @method revealMessage(addressWitness: SpyMerkleWitness, message: Field, salt: Field, messageWitness: MessageMerkleWitness) {
+            // a revealed zero would empty the leaf and free the slot for a second message
+            message.assertNotEquals(0, 'Cannot store an empty message!');
+
+            // validate message flags
+            const flags = validateMessage(message);
+
+            const packedState = this.packedState.getAndRequireEquals();
+            const { phases } = PackedState.unpack(packedState);
+            requireBlockHeightWindow(this, phases.submissionWindow(), 'Message submission is not open yet!', 'Message submission is closed!');
+
+            // the spy signs the transaction, a forged `this.sender` would reveal the commitment of another spy
+            const messageIndex = requireMessageSlot(this, signedSenderDigest(this.sender), addressWitness, messageWitness);
+
+            /* 
+            - check that the leaf of the sender holds the commitment to the revealed message and salt
+                --> a wrong salt, a leaf without commitment or an already revealed leaf all fail here
+            */
+            const commitment = committedMessageLeaf(this.address, messageIndex, message, salt);
+            const committedMessageCommitment = messageWitness.calculateRoot(commitment);
+            this.messageCommitment.getAndRequireEquals().assertEquals(committedMessageCommitment, 'Revealed message does not match the committed leaf or off-chain message Merkle Tree is out of sync!');
+
+            this.messageCommitment.set(messageWitness.calculateRoot(message));
+
+            // the leaf was already counted by the commitment
+            acceptMessage(this, packedState, messageIndex, message, flags);
+        }
+
+        /**
+         * Settle a batch of messages proven by the batch program in a single transaction.
+         * 
+         * The proof checks eligibility, leaf emptiness and `validateMessage` for every message, so the vault
+         * only checks that the batch starts from its current trees and emits the proven messages.
+         * 
+         * Batched messages earn no reward: the batch does not carry the spy addresses to pay.
+         * @param batchProof recursive proof of the batch, see `VaultStorage.proveMessageBatch`
+         * @param batch the messages chained in the proof, padded with empty messages
+         */
+        @method storeMessageBatch(batchProof: MessageBatchProof, batch: MessageBatch) {
+            batchProof.verify();
+
+            const { vaultAddress, addressCommitment, initialMessageCommitment, messageCommitment, messageCount, messagesHash, flagTallies } = batchProof.publicInput;
+            vaultAddress.assertEquals(this.address);
 
-        // the admin is set as the zkapp initializer
-        this.adminAddress.set(Poseidon.hash(this.sender.toFields()));
+            const packedState = this.packedState.getAndRequireEquals();
+            const { phases } = PackedState.unpack(packedState);
+            requireBlockHeightWindow(this, phases.submissionWindow(), 'Message submission is not open yet!', 'Message submission is closed!');
 
-        // set address commitment as the root of an empty Merkle Tree of size 256
-        this.addressCommitment.set(Field(14472842460125086645444909368571209079194991627904749620726822601198914470820n));
+            // the batch must start from the current on-chain trees
+            this.addressCommitment.getAndRequireEquals().assertEquals(addressCommitment, 'Message batch was proven against an out of sync address Merkle Tree!');
+            this.messageCommitment.getAndRequireEquals().assertEquals(initialMessageCommitment, 'Message batch was proven against an out of sync message Merkle Tree!');
 
-        this.spyCount.set(Field(-1));
-        this.spyAddress.set(Field(0));
+            messageCount.assertGreaterThan(0, 'Message batch is empty!');
+            batch.hash().assertEquals(messagesHash, 'Message batch does not match the proven messages!');
 
-        // set message commitment as the root of an empty Merkle Tree of size 256
-        this.messageCommitment.set(Field(14472842460125086645444909368571209079194991627904749620726822601198914470820n));
-        this.message.set(Field(0));
-        this.messageCount.set(Field(0));
+            // update the on-chain message Merkle Tree commitment(root)
+            this.messageCommitment.set(messageCommitment);
+
+            const updatedMessageCount = this.messageCount.getAndRequireEquals().add(messageCount);
+            updatedMessageCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+            this.messageCount.set(updatedMessageCount);
+
+            // the batch tallies cannot overflow either, they are bounded by the capped message count
+            this.packedState.set(packedState.add(flagTallies));
+
+            // emit an event per message so that the off-chain message tree can be rebuilt from the chain
+            let lastMessage = this.message.getAndRequireEquals();
+            for (const batchedMessage of batch.messages) {
+                lastMessage = Provable.if(batchedMessage.message.equals(0), lastMessage, batchedMessage.message);
+                this.emitEvent("Successfully stored a batched message", batchedMessage);
+            }
+
+            this.message.set(lastMessage);
+        }
+
+        /**
+         * Revoke an enrolled address by zeroing its leaf.
+         * 
+         * A message already stored by the revoked address is purged as well because it can no longer be trusted. 
+         * This also frees the message leaf of the slot for a key rotated in later.
+         * 
+         * The slot stays allocated: `spyCount` is not decremented and the slot can only be reused through `rotateAddress`.
+         * @param addressDigest the current address leaf 
+         * @param addressWitness witness of the address leaf to revoke
+         * @param message the current message leaf at the same index, Field(0) if no message was sent
+         * @param messageWitness witness of the message leaf at the same index
+         */
+        @method revokeAddress(addressDigest: Field, addressWitness: SpyMerkleWitness, message: Field, messageWitness: MessageMerkleWitness) {
+            // assert that only the admin is allowed to revoke addresses
+            requireAdmin(this.adminAddress, this.sender);
+
+            revokeSlot(this, addressDigest, addressWitness, message, messageWitness);
+        }
+
+        /**
+         * Same as `revokeAddress` for a vault governed by a k-of-n admin set.
+         * @param addressDigest 
+         * @param addressWitness 
+         * @param message 
+         * @param messageWitness 
+         * @param approvals signatures of at least `threshold` admins over the address leaf and its index
+         */
+        @method revokeAddressWithApprovals(
+            addressDigest: Field, 
+            addressWitness: SpyMerkleWitness, 
+            message: Field, 
+            messageWitness: MessageMerkleWitness, 
+            approvals: AdminApprovals
+        ) {
+            const payload = revokeAddressPayload(this.address, addressDigest, addressWitness.calculateIndex());
+            approvals.assertApproved(this.adminAddress.getAndRequireEquals(), payload);
+
+            revokeSlot(this, addressDigest, addressWitness, message, messageWitness);
+        }
+
+        /**
+         * Replace the address stored at an allocated index with a new key.
+         * 
+         * The index can hold an active or a revoked address; the message leaf of the slot is left as is.
+         * @param spyAddress the new spy address
+         * @param currentLeaf the current address leaf, Field(0) for a revoked address 
+         * @param addressWitness witness of the address leaf to rotate
+         */
+        @method rotateAddress(spyAddress: PublicKey, currentLeaf: Field, addressWitness: SpyMerkleWitness) {
+            // assert that only the admin is allowed to rotate addresses
+            requireAdmin(this.adminAddress, this.sender);
+
+            rotateSlot(this, spyAddress, currentLeaf, addressWitness);
+        }
+
+        /**
+         * Same as `rotateAddress` for a vault governed by a k-of-n admin set.
+         * @param spyAddress 
+         * @param currentLeaf 
+         * @param addressWitness 
+         * @param approvals signatures of at least `threshold` admins over the current leaf, the new address and their index
+         */
+        @method rotateAddressWithApprovals(spyAddress: PublicKey, currentLeaf: Field, addressWitness: SpyMerkleWitness, approvals: AdminApprovals) {
+            const payload = rotateAddressPayload(this.address, currentLeaf, spyAddress, addressWitness.calculateIndex());
+            approvals.assertApproved(this.adminAddress.getAndRequireEquals(), payload);
+
+            rotateSlot(this, spyAddress, currentLeaf, addressWitness);
+        }
+
+        static readonly config: VaultConfig = { height, capacity };
+        static readonly SpyMerkleWitness = SpyMerkleWitness;
+        static readonly MessageMerkleWitness = MessageMerkleWitness;
+        static readonly MessageBatchProgram = MessageBatchProgram;
     }
 
     /**
-     * We take a witness with index the same as the storage count
-     * @param spy 
-     * @param spyWitness 
+     * Store an address at the leaf following the on-chain spy address counter, once the caller is authorized.
      */
-    @method storeAddress(spyAddress: PublicKey, addressWitness: SpyMerkleWitness) {
-        // assert that only the admin is allowed to store addresses
-        const senderAddressDigest = Poseidon.hash(this.sender.toFields());
-        this.adminAddress.getAndRequireEquals().assertEquals(senderAddressDigest, 'Only Admin is allowed to call this method!');
+    function enrollAddress(vault: MessageVault, spyAddress: PublicKey, addressWitness: SpyMerkleWitness) {
+        // addresses can only be stored during the enrollment window
+        const { phases } = PackedState.unpack(vault.packedState.getAndRequireEquals());
+        requireBlockHeightWindow(vault, phases.enrollmentWindow(), 'Address enrollment is not open yet!', 'Address enrollment is closed!');
 
         // fetch on-chain address counter and add 1
-        let incrementedCount = this.spyCount.getAndRequireEquals().add(1);
+        let incrementedCount = vault.spyCount.getAndRequireEquals().add(1);
 
-        // make sure not to store more than 100 addresses
-        incrementedCount.assertLessThan(100, 'Reached maximum storage cap of 100 addresses!');
-        
+        // make sure not to store more than `capacity` addresses
+        incrementedCount.assertLessThan(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+    
         // make sure storage index is in sync with the on-chain spy address counter
         let storageIndex = addressWitness.calculateIndex();
         storageIndex.assertEquals(incrementedCount, 'Off-chain storage index is not compliant!');
@@ -81,37 +669,168 @@ class MessageVault extends SmartContract {
             --> a witness of an empty leaf(before update) maintains the same root(commitiment)
         */ 
         let currentCommitment = addressWitness.calculateRoot(Field(0));
-        this.addressCommitment.getAndRequireEquals().assertEquals(currentCommitment, 'Off-chain address merkle tree is out of sync!');
+        vault.addressCommitment.getAndRequireEquals().assertEquals(currentCommitment, 'Off-chain address merkle tree is out of sync!');
 
         // hash the address taking advantage of field conversion + masking property
         let addressDigest = Poseidon.hash(spyAddress.toFields());
 
         // update on-chain spy address
-        this.spyAddress.set(addressDigest);
-    
+        vault.spyAddress.set(addressDigest);
+
         // calculate the new merkle root following the updated address storage
         let updatedCommitment = addressWitness.calculateRoot(addressDigest);
 
         // update the on-chain address Merkle Tree commitment(root)
-        this.addressCommitment.set(updatedCommitment);
+        vault.addressCommitment.set(updatedCommitment);
 
         // increment the on-chain count
-        this.spyCount.set(incrementedCount);
-    }   
+        vault.spyCount.set(incrementedCount);
+
+        // emit event for storing an address so that the off-chain address tree can be rebuilt from the chain
+        vault.emitEvent("Successfully stored an address", new AddressStoredEvent({ index: storageIndex, addressDigest }));
+    }
+
+    /**
+     * Freeze both commitments once the submission deadline has passed.
+     */
+    function requireUnsealed(vault: MessageVault) {
+        const { phases } = PackedState.unpack(vault.packedState.getAndRequireEquals());
+        requireBlockHeightWindow(vault, phases.unsealedWindow(), 'Vault is sealed!', 'Vault is sealed!');
+    }
+
+    /**
+     * Set the phases of the vault once the caller is authorized, they can only be set once.
+     */
+    function initPhases(vault: MessageVault, phases: VaultPhases) {
+        const packedState = PackedState.unpack(vault.packedState.getAndRequireEquals());
+        packedState.phases.isSet().assertFalse('Vault phases are already set!');
+
+        phases.enrollmentDeadline.assertLessThan(phases.submissionDeadline, 'The enrollment deadline must come before the submission deadline!');
+
+        vault.packedState.set(new PackedState({ ...packedState, phases }).pack());
+
+        vault.emitEvent("Successfully set the vault phases", phases);
+    }
+
+    /**
+     * Set the message reward once the caller is authorized.
+     */
+    function updateReward(vault: MessageVault, reward: UInt64) {
+        const packedState = PackedState.unpack(vault.packedState.getAndRequireEquals());
+        vault.packedState.set(new PackedState({ ...packedState, reward }).pack());
+
+        vault.emitEvent("Successfully set the message reward", reward);
+    }
+
+    /**
+     * Replace the admin commitment with the address digest of a single admin, once the caller is authorized.
+     */
+    function handOffAdmin(vault: MessageVault, newAdmin: PublicKey) {
+        const newAdminDigest = Poseidon.hash(newAdmin.toFields());
+        vault.adminAddress.set(newAdminDigest);
+
+        vault.emitEvent("Successfully updated the admin", newAdminDigest);
+    }
+
+    /**
+     * Zero an address leaf and purge its message once the caller is authorized, see `revokeAddress`.
+     */
+    function revokeSlot(vault: MessageVault, addressDigest: Field, addressWitness: SpyMerkleWitness, message: Field, messageWitness: MessageMerkleWitness) {
+        requireUnsealed(vault);
+
+        // an empty leaf is either never stored or already revoked
+        addressDigest.assertNotEquals(Field(0), 'Cannot revoke an empty address leaf!');
+
+        let addressIndex = addressWitness.calculateIndex();
+        messageWitness.calculateIndex().assertEquals(addressIndex, 'Both addressWitness and messageWitness should point to the same leaf index!');
+
+        // check that the off-chain address and message storage are in sync
+        let currentCommitment = addressWitness.calculateRoot(addressDigest);
+        vault.addressCommitment.getAndRequireEquals().assertEquals(currentCommitment, 'Off-chain address merkle tree is out of sync!');
+
+        let currentMessageCommitment = messageWitness.calculateRoot(message);
+        vault.messageCommitment.getAndRequireEquals().assertEquals(currentMessageCommitment, 'Off-chain message merkle tree is out of sync!');
+
+        // zero the address leaf and purge the stored message
+        vault.addressCommitment.set(addressWitness.calculateRoot(Field(0)));
+        vault.messageCommitment.set(messageWitness.calculateRoot(Field(0)));
 
-    @method checkAndStoreMessage(addressWitness: SpyMerkleWitness, message: Field, messageWitness: MessageMerkleWitness) { 
-        // hash the sender address
-        let senderAddressDigest = Poseidon.hash(this.sender.toFields());
+        // the message count only decreases if the revoked address already sent a message
+        const messageCount = vault.messageCount.getAndRequireEquals();
+        const purgedCount = Provable.if(message.equals(0), Field(0), Field(1));
+        vault.messageCount.set(messageCount.sub(purgedCount));
 
+        vault.emitEvent("Successfully revoked an address", addressIndex);
+    }
+
+    /**
+     * Replace the address of an allocated slot once the caller is authorized, see `rotateAddress`.
+     */
+    function rotateSlot(vault: MessageVault, spyAddress: PublicKey, currentLeaf: Field, addressWitness: SpyMerkleWitness) {
+        requireUnsealed(vault);
+
+        /* 
+        - only already allocated slots can be rotated 
+            --> new slots must go through `storeAddress` to keep `spyCount` in sync
+        */
+        let storageIndex = addressWitness.calculateIndex();
+        storageIndex.assertLessThan(vault.spyCount.getAndRequireEquals().add(1), 'Cannot rotate an address at a non-allocated index!');
+
+        // check that the off-chain address storage is in sync
+        let currentCommitment = addressWitness.calculateRoot(currentLeaf);
+        vault.addressCommitment.getAndRequireEquals().assertEquals(currentCommitment, 'Off-chain address merkle tree is out of sync!');
+
+        let addressDigest = Poseidon.hash(spyAddress.toFields());
+
+        vault.spyAddress.set(addressDigest);
+        vault.addressCommitment.set(addressWitness.calculateRoot(addressDigest));
+
+        vault.emitEvent("Successfully rotated an address", new AddressStoredEvent({ index: storageIndex, addressDigest }));
+    }
+
+    /**
+     * Store a validated message at the leaf index of the spy address and tally its decoded flags, returns the message reward.
+     * 
+     * The spy address is the transaction sender, except for relayed messages where it is authenticated by signature.
+     */
+    function storeMessage(
+        vault: MessageVault, 
+        spyAddress: PublicKey, 
+        addressWitness: SpyMerkleWitness, 
+        message: Field, 
+        messageWitness: MessageMerkleWitness, 
+        flags: Bool[], 
+    ) {
+        // messages can only be stored during the submission window
+        const packedState = vault.packedState.getAndRequireEquals();
+        const { phases, reward } = PackedState.unpack(packedState);
+        requireBlockHeightWindow(vault, phases.submissionWindow(), 'Message submission is not open yet!', 'Message submission is closed!');
+
+        // an empty message would leave the leaf empty, so the slot could be filled and paid again
+        message.assertNotEquals(0, 'Cannot store an empty message!');
+
+        const messageIndex = requireMessageSlot(vault, Poseidon.hash(spyAddress.toFields()), addressWitness, messageWitness);
+
+        fillMessageLeaf(vault, messageWitness, message);
+
+        acceptMessage(vault, packedState, messageIndex, message, flags);
+
+        return reward;
+    }
+
+    /**
+     * Check that the spy address digest is enrolled and that the message witness points to its slot, returns the slot index.
+     */
+    function requireMessageSlot(vault: MessageVault, senderAddressDigest: Field, addressWitness: SpyMerkleWitness, messageWitness: MessageMerkleWitness) {
         /* 
         1. check that the sender is eligible to store a message
         2. also checks that spy address off-chain storage is in sync
         3. using the spyAddress from the address Merkle tree verifies compliance with message Merkle Tree 
-            --> this also binds messages to the size=100 storage limit.
+            --> this also binds messages to the address storage capacity.
         */
         let spyCommitment = addressWitness.calculateRoot(senderAddressDigest);
-        spyCommitment.assertEquals(this.addressCommitment.getAndRequireEquals(), 'Your account is not eligible to send a message!');
-        
+        spyCommitment.assertEquals(vault.addressCommitment.getAndRequireEquals(), 'Your account is not eligible to send a message!');
+    
         // calculate the index where the eligible address is stored
         let addressIndex = addressWitness.calculateIndex();
 
@@ -124,6 +843,13 @@ class MessageVault extends SmartContract {
          */
         messageIndex.assertEquals(addressIndex, 'Both addressWitness and messageWitness should point to the same leaf index!');
 
+        return messageIndex;
+    }
+
+    /**
+     * Store a leaf at the empty message leaf of the witness and count it in `messageCount`.
+     */
+    function fillMessageLeaf(vault: MessageVault, messageWitness: MessageMerkleWitness, leaf: Field) {
         /* 
         1. check that the message leaf is empty 
             --> ensures that one address can only deposit one message
@@ -131,85 +857,74 @@ class MessageVault extends SmartContract {
             --> a witness of an empty leaf(before update) maintains the same root(commitiment)
         */ 
         let currentMessageCommitment = messageWitness.calculateRoot(Field(0));
-        this.messageCommitment.getAndRequireEquals().assertEquals(currentMessageCommitment, 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!');
-        
-        // validate message flags
-        validateMessage(message); 
+        vault.messageCommitment.getAndRequireEquals().assertEquals(currentMessageCommitment, 'Non-compliant Messge Tree Root! Leaf message is already full or off-chain message Merkle Tree is out of sync!');
 
         // calculate the new merkle root following the updated message storage
-        let updatedMessageCommitment = messageWitness.calculateRoot(message);
+        let updatedMessageCommitment = messageWitness.calculateRoot(leaf);
 
         // update the on-chain message Merkle Tree commitment(root)
-        this.messageCommitment.set(updatedMessageCommitment);
-
-        // update the stored on-chain message and message count
-        this.message.set(message);
+        vault.messageCommitment.set(updatedMessageCommitment);
 
         // fetch and increment current message count
-        const updatedMessageCount = this.messageCount.getAndRequireEquals().add(1);
-        
+        const updatedMessageCount = vault.messageCount.getAndRequireEquals().add(1);
+    
         /* 
         - the message count is binded to the address storage count.
         - this an supplementary assertion on the message storage size limit
         - this assertion might never fail because the addressCommitment check will revert first. 
         */
-        updatedMessageCount.assertLessThanOrEqual(100, 'Reached maximum storage cap of 100 addresses!');
-        
+        updatedMessageCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+    
         // set updated on-chain message count
-        this.messageCount.set(updatedMessageCount);
+        vault.messageCount.set(updatedMessageCount);
+    }
+
+    /**
+     * Publish a message stored in the message tree, tally its flags and emit its events.
+     */
+    function acceptMessage(vault: MessageVault, packedState: Field, messageIndex: Field, message: Field, flags: Bool[]) {
+        // update the stored on-chain message
+        vault.message.set(message);
+
+        // tally the message flags in the same update as the message insert
+        vault.packedState.set(packedState.add(flagTalliesIncrement(flags)));
 
         // emit event for receiving a valid message
-        this.emitEvent("Successfully received a valid message", this.messageCount.getAndRequireEquals());
+        vault.emitEvent("Successfully received a valid message", vault.messageCount.getAndRequireEquals());
+
+        // emit event for storing a message so that the off-chain message tree can be rebuilt from the chain
+        vault.emitEvent("Successfully stored a message", new MessageStoredEvent({ index: messageIndex, message }));
     }
-}
 
-function validateMessage(message: Field) {
-    // Use a bitmask to extract the last six digits
-    const slicedMessage = Provable.witness(Provable.Array(Field, 2), () => {
-        let divMillion = Field(message.toBigInt() / 1_000_000n);
-        let modMillion = Field(message.toBigInt() % 1_000_000n);
-        return [divMillion, modMillion]
-    });
-    
-    const [restDigits, lastSixDigits] = slicedMessage;
+    /**
+     * Pay the message reward from the vault balance, only called by the submission methods that opt in to rewards.
+     */
+    function payReward(vault: MessageVault, reward: UInt64, payoutAddress: PublicKey) {
+        /* 
+        - the balance is only read to fail early with a clear error
+            --> the precondition is what the network checks on inclusion
+        */
+        const balance = vault.account.balance.get();
+        balance.assertGreaterThanOrEqual(reward, 'Vault balance is too low to pay the message reward!');
+        vault.account.balance.requireBetween(reward, UInt64.MAXINT());
 
-    // assert the integrity of the slicing operation
-    restDigits.mul(1_000_000).add(lastSixDigits).assertEquals(message);
+        vault.send({ to: payoutAddress, amount: reward });
+    }
 
-    // check that all digits are of size 1 bit
-    lastSixDigits.assertLessThanOrEqual(111111, 'Error Validating Message! All flags are not of size 1 bit!');
-    
-    const flags = Provable.witness(Provable.Array(Bool, 6), () => {
-        let digits = lastSixDigits.toBigInt();
-        let flags: bigint[] = [];
-        
-        for (let i=0; i<6; i++) {
-            flags.push(digits % 10n);
-            digits = digits / 10n; 
-        }
+    return { MessageVault, SpyMerkleWitness, MessageMerkleWitness };
+}
 
-        return flags.map((d) => d === 1n ? Bool(true) : Bool(false));
-    });
+const defaultVault = createMessageVault(defaultVaultConfig);
 
-    let flagsChecker = Field(0);
-    for (const [index, flag] of flags.entries()) { 
-        flagsChecker = flagsChecker.add(flag.toField().mul(10 ** index));
-    }
+/*
+- the default vault keeps the original size of 100 addresses in trees of height 8
+    --> a value and a type are exported under the same name so that it is used like a class declaration
+*/
+const MessageVault = defaultVault.MessageVault;
+type MessageVault = InstanceType<typeof MessageVault>;
 
-    // check integrity of converting the six digit filed into an array of 6 flags
-    flagsChecker.assertEquals(lastSixDigits, 'Error Separating Message Flags!');
-    
-    const [flag1, flag2, flag3, flag4, flag5, flag6] = flags.reverse();
-    
-    // if flag 1 is true, then all other flags must be false
-    const rule1 = flag1.not().or(lastSixDigits.equals(100_000));
-    rule1.assertTrue('Invalid Message! Rule1 is violated!');
-    
-    // if flag 2 is true, then flag 3 must also be true.
-    const rule2 = flag2.not().or(flag2.and(flag3));
-    rule2.assertTrue('Invalid Message! Rule2 is violated!');
-
-    // if flag 4 is true, then flags 5 and 6 must be false.
-    const rule3 = flag4.and(flag5.or(flag6));
-    rule3.assertFalse('Invalid Message! Rule3 is violated!');
-}
\ No newline at end of file
+const SpyMerkleWitness = defaultVault.SpyMerkleWitness;
+type SpyMerkleWitness = InstanceType<typeof SpyMerkleWitness>;
+
+const MessageMerkleWitness = defaultVault.MessageMerkleWitness;
+type MessageMerkleWitness = InstanceType<typeof MessageMerkleWitness>;
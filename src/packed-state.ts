@@ -0,0 +1,66 @@
+import {
+    Field,
+    Provable,
+    Struct,
+    UInt64,
+} from 'o1js';
+import { tallyBits } from './flag-tallies.js';
+import { VaultPhases } from './vault-phases.js';
+
+export {
+    PackedState,
+    phasesOffset,
+    rewardOffset,
+}
+
+/*
+- the vault has no state slot left for its settings
+    --> the flag tallies, the phase deadlines and the message reward share the `packedState` field, from the lowest bits:
+        - the six flag tallies, `tallyBits` each
+        - the enrollment and submission deadlines, 32 bits each
+        - the message reward in nanomina, 64 bits
+    --> the tallies only ever add to the lowest bits, so they never touch the settings above them
+*/
+const phasesOffset = 6 * tallyBits;
+const rewardOffset = phasesOffset + 64;
+
+/**
+ * The unpacked `packedState` of a vault.
+ */
+class PackedState extends Struct({
+    tallies: Field,
+    phases: VaultPhases,
+    reward: UInt64,
+}) {
+    /**
+     * Split a `packedState` in-circuit.
+     */
+    static unpack(packedState: Field) {
+        const unpacked = Provable.witness(PackedState, () => PackedState.read(packedState));
+
+        // the tallies must stay below the settings for the split to be unique
+        unpacked.tallies.toBits(phasesOffset);
+        unpacked.pack().assertEquals(packedState);
+
+        return unpacked;
+    }
+
+    /**
+     * Split a `packedState` out of circuit.
+     */
+    static read(packedState: Field) {
+        const packed = packedState.toBigInt();
+
+        return new PackedState({
+            tallies: Field(packed % 2n ** BigInt(phasesOffset)),
+            phases: VaultPhases.unpack((packed >> BigInt(phasesOffset)) % 2n ** 64n),
+            reward: UInt64.from(packed >> BigInt(rewardOffset)),
+        });
+    }
+
+    pack() {
+        return this.tallies
+            .add(this.phases.pack().mul(2n ** BigInt(phasesOffset)))
+            .add(this.reward.value.mul(2n ** BigInt(rewardOffset)));
+    }
+}
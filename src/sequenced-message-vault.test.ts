@@ -0,0 +1,233 @@
+import {
+  SequencedMessageVault,
+  SequencedVaultStorage,
+  SequencedMessageEvent,
+  messageKey,
+} from './sequenced-message-vault';
+import {
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Sequenced Message Vault: Multiple Messages per Spy Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  intruderKey: PrivateKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: SequencedMessageVault,
+  storage: SequencedVaultStorage;
+
+  const messageLimit = 3;
+  const messages = [Field(100000), Field(123423432423423434100000n), Field(1234234324234234340_011_000n)];
+
+  beforeAll(async () => {
+    if (proofsEnabled) await SequencedMessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    // use pre-funded test accounts as spies to avoid funding them
+    spyKeys = Local.testAccounts.slice(1, 3).map((account) => account.privateKey);
+    intruderKey = Local.testAccounts[3].privateKey;
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkapp = new SequencedMessageVault(zkappPrivateKey.toPublicKey());
+    storage = new SequencedVaultStorage(zkapp);
+  });
+
+  async function initVault(limit: Field) {
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault(limit);
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+  }
+
+  async function storeAddress(spyAddress: PublicKey) {
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(spyKey: PrivateKey, message: Field) {
+    let senderAddress = spyKey.toPublicKey();
+    let { addressWitness, sequence, messageWitness, updates } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, sequence, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([spyKey]).send();
+
+    await storage.applyWhenIncluded(txId, ...updates);
+  }
+
+  it('should reject a vault without a positive per-spy message limit', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+
+    await expect(initVault(Field(0))).rejects.toThrowError('The per-spy message limit must be positive!');
+  });
+
+  it('should initialize the vault and enroll 2 spies', async () => {
+    await initVault(Field(messageLimit));
+
+    for (const spyKey of spyKeys) await storeAddress(spyKey.toPublicKey());
+
+    expect(zkapp.messageLimit.get()).toEqual(Field(messageLimit));
+    expect(zkapp.spyCount.get()).toEqual(Field(2));
+    expect(storage.getHistory(spyKeys[0].toPublicKey())).toEqual([]);
+  });
+
+  it('should store several messages per spy in sequence', async () => {
+    await storeMessage(spyKeys[0], messages[0]);
+    await storeMessage(spyKeys[1], messages[1]);
+    await storeMessage(spyKeys[0], messages[1]);
+
+    expect(storage.getHistory(spyKeys[0].toPublicKey())).toEqual([messages[0], messages[1]]);
+    expect(storage.getHistory(spyKeys[1].toPublicKey())).toEqual([messages[1]]);
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+  });
+
+  it('should reject a submission proven against a stale sequence number', async () => {
+    const senderAddress = spyKeys[0].toPublicKey();
+    const addressDigest = SequencedVaultStorage.hashAddress(senderAddress);
+
+    // replay the submission of sequence number 1 against the current maps
+    const addressWitness = storage.addressMap.getWitness(addressDigest);
+    const messageWitness = storage.messageMap.getWitness(messageKey(addressDigest, Field(1)));
+
+    const expectedErrorMessage = 'Your account is not eligible to send a message or the sequence number is not current!';
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(1), messages[2], messageWitness);
+    })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a message witness for another sequence number', async () => {
+    const senderAddress = spyKeys[0].toPublicKey();
+    const addressDigest = SequencedVaultStorage.hashAddress(senderAddress);
+
+    const addressWitness = storage.addressMap.getWitness(addressDigest);
+    const messageWitness = storage.messageMap.getWitness(messageKey(addressDigest, Field(0)));
+
+    const expectedErrorMessage = 'Message witness does not match the sender and sequence number!';
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(2), messages[2], messageWitness);
+    })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('should reject a message from an address that is not enrolled', async () => {
+    const addressDigest = SequencedVaultStorage.hashAddress(intruderKey.toPublicKey());
+    const addressWitness = storage.addressMap.getWitness(addressDigest);
+    const messageWitness = storage.messageMap.getWitness(messageKey(addressDigest, Field(0)));
+
+    expect(() => storage.prepareStoreMessage(intruderKey.toPublicKey(), messages[0])).toThrowError('is not stored in the vault!');
+
+    await expect(Mina.transaction(intruderKey.toPublicKey(), () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(0), messages[0], messageWitness);
+    })).rejects.toThrowError('Your account is not eligible to send a message or the sequence number is not current!');
+  });
+
+  it('should reject a sequence number that wraps the address leaf of a non-enrolled address to empty', async () => {
+    const addressDigest = SequencedVaultStorage.hashAddress(intruderKey.toPublicKey());
+    const addressWitness = storage.addressMap.getWitness(addressDigest);
+    const messageWitness = storage.messageMap.getWitness(messageKey(addressDigest, Field(-1)));
+    const addressRoot = zkapp.addressRoot.get();
+
+    // `Field(-1).add(1)` is the empty leaf of any address that was never enrolled
+    await expect(Mina.transaction(intruderKey.toPublicKey(), () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(-1), messages[0], messageWitness);
+    })).rejects.toThrow();
+
+    expect(zkapp.addressRoot.get()).toEqual(addressRoot);
+  });
+
+  it('should reject a message in the sequence of a spy that did not sign the transaction', async () => {
+    const spyAddress = spyKeys[1].toPublicKey();
+    const { addressWitness, sequence, messageWitness } = storage.prepareStoreMessage(spyAddress, messages[0]);
+
+    // `this.sender` is a witness, a prover can claim the sequence of another spy while paying the fee with its own key
+    Object.defineProperty(zkapp, 'sender', { get: () => spyAddress, configurable: true });
+    try {
+      const messageTxn = await Mina.transaction(intruderKey.toPublicKey(), () => {
+        zkapp.checkAndStoreMessage(addressWitness, sequence, messages[0], messageWitness);
+      });
+      await messageTxn.prove();
+      await expect(messageTxn.sign([intruderKey]).send()).rejects.toThrowError('the required authorization was not provided or is invalid');
+    } finally {
+      delete (zkapp as { sender?: PublicKey }).sender;
+    }
+
+    expect(zkapp.messageCount.get()).toEqual(Field(3));
+    expect(storage.getHistory(spyAddress)).toEqual([messages[1]]);
+  });
+
+  it('should reject a message beyond the per-spy message limit', async () => {
+    await storeMessage(spyKeys[0], messages[2]);
+    expect(storage.getHistory(spyKeys[0].toPublicKey()).length).toEqual(messageLimit);
+
+    const senderAddress = spyKeys[0].toPublicKey();
+    expect(() => storage.prepareStoreMessage(senderAddress, messages[0])).toThrowError('has reached the per-spy message limit!');
+
+    const addressDigest = SequencedVaultStorage.hashAddress(senderAddress);
+    const addressWitness = storage.addressMap.getWitness(addressDigest);
+    const messageWitness = storage.messageMap.getWitness(messageKey(addressDigest, Field(messageLimit)));
+
+    await expect(Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, Field(messageLimit), messages[0], messageWitness);
+    })).rejects.toThrowError('Reached the per-spy message limit!');
+
+    // the other spy is not affected by the limit of the first one
+    await storeMessage(spyKeys[1], messages[2]);
+    expect(zkapp.messageCount.get()).toEqual(Field(5));
+  });
+
+  it('should reject a second enrollment that would reset a sequence number', async () => {
+    const spyAddress = spyKeys[1].toPublicKey();
+    expect(() => storage.prepareStoreAddress(spyAddress)).toThrowError('is already enrolled!');
+
+    const witness = storage.addressMap.getWitness(SequencedVaultStorage.hashAddress(spyAddress));
+    await expect(Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    })).rejects.toThrowError('Address is already enrolled or off-chain address merkle map is out of sync!');
+  });
+
+  it('should emit each message with its sender and sequence number', async () => {
+    const events = await zkapp.fetchEvents();
+    const messageEvents = events
+      .filter((e) => e.type === 'Successfully stored a message')
+      .map((e) => e.event.data as unknown as SequencedMessageEvent);
+
+    const spyDigest = SequencedVaultStorage.hashAddress(spyKeys[1].toPublicKey());
+    const spyEvents = messageEvents.filter(({ addressDigest }) => addressDigest.equals(spyDigest).toBoolean());
+    expect(spyEvents.map(({ sequence, message }) => [sequence, message])).toEqual([[Field(0), messages[1]], [Field(1), messages[2]]]);
+  });
+
+  it('should rebuild the message history of each spy from events', async () => {
+    const rebuiltStorage = await SequencedVaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.getHistory(spyKeys[0].toPublicKey())).toEqual(messages);
+    expect(rebuiltStorage.getHistory(spyKeys[1].toPublicKey())).toEqual([messages[1], messages[2]]);
+    expect(rebuiltStorage.messageMap.getRoot()).toEqual(zkapp.messageRoot.get());
+  });
+});
@@ -0,0 +1,298 @@
+import {
+    State,
+    state,
+    method,
+    PublicKey,
+    Field,
+    Poseidon,
+    Struct,
+    MerkleMap,
+    MerkleMapWitness,
+    Mina,
+} from 'o1js';
+import { VaultContract } from './vault-permissions.js';
+import { signedSenderDigest, requireAdmin } from './admin-set.js';
+import type { PendingKeyUpdate } from './vault-storage.js';
+import { MessageVault, validateMessage } from './message-vault.js';
+
+export {
+    SequencedMessageVault,
+    SequencedVaultStorage,
+    SequencedMessageEvent,
+    messageKey,
+}
+
+class SequencedMessageEvent extends Struct({ addressDigest: Field, sequence: Field, message: Field }) {}
+
+// same address cap as the default vault
+const { capacity } = MessageVault.config;
+
+// root of an empty address or message Merkle Map
+const emptyMapRoot = new MerkleMap().getRoot();
+
+/**
+ * Key of the message sent by a spy at a sequence number in the message Merkle Map.
+ */
+function messageKey(addressDigest: Field, sequence: Field) {
+    return Poseidon.hash([addressDigest, sequence]);
+}
+
+/**
+ * A message vault where each enrolled spy can send up to `messageLimit` messages.
+ *
+ * The address Merkle Map holds `sequence + 1` at the key of each enrolled address digest, where `sequence` is
+ * the number of messages the spy has sent so far, so an empty key still means the address is not enrolled.
+ * The message of sequence number `n` is stored at `messageKey(addressDigest, n)` in the message Merkle Map.
+ *
+ * A submission is proven against the current sequence number of the spy, so a message can neither be
+ * stored twice nor overwrite an earlier one. `messageCount` counts the messages of all spies.
+ */
+class SequencedMessageVault extends VaultContract {
+    @state(Field) adminAddress = State<Field>();
+
+    @state(Field) addressRoot = State<Field>();
+    @state(Field) spyCount = State<Field>();
+
+    @state(Field) messageRoot = State<Field>();
+    @state(Field) messageCount = State<Field>();
+    @state(Field) messageLimit = State<Field>();
+
+    events = {
+        "Successfully stored an address": Field,
+        "Successfully stored a message": SequencedMessageEvent,
+    }
+
+    /**
+     * @param messageLimit maximum number of messages per spy
+     */
+    @method initVault(messageLimit: Field) {
+        messageLimit.assertGreaterThan(0, 'The per-spy message limit must be positive!');
+
+        super.init();
+
+        // the admin is set as the zkapp initializer
+        this.adminAddress.set(signedSenderDigest(this.sender));
+
+        // set address and message roots as the root of an empty Merkle Map
+        this.addressRoot.set(emptyMapRoot);
+        this.spyCount.set(Field(0));
+
+        this.messageRoot.set(emptyMapRoot);
+        this.messageCount.set(Field(0));
+        this.messageLimit.set(messageLimit);
+    }
+
+    /**
+     * Enroll an address at the key of its digest, with a sequence number of zero.
+     * @param spyAddress
+     * @param addressWitness Merkle Map witness of the address digest
+     */
+    @method storeAddress(spyAddress: PublicKey, addressWitness: MerkleMapWitness) {
+        // assert that only the admin is allowed to store addresses
+        requireAdmin(this.adminAddress, this.sender);
+
+        // the counter only enforces the cap, it is not tied to any key
+        const incrementedCount = this.spyCount.getAndRequireEquals().add(1);
+        incrementedCount.assertLessThanOrEqual(capacity, `Reached maximum storage cap of ${capacity} addresses!`);
+
+        const addressDigest = Poseidon.hash(spyAddress.toFields());
+
+        /*
+        1. check that the key of the address is empty
+            --> an address cannot be enrolled twice, nor have its sequence number reset
+        2. check that the off-chain address storage is in sync
+        */
+        const [currentRoot, key] = addressWitness.computeRootAndKey(Field(0));
+        key.assertEquals(addressDigest, 'Address witness does not match the spy address!');
+        this.addressRoot.getAndRequireEquals().assertEquals(currentRoot, 'Address is already enrolled or off-chain address merkle map is out of sync!');
+
+        // an enrolled address holds `sequence + 1`, i.e. 1 before its first message
+        const [updatedRoot] = addressWitness.computeRootAndKey(Field(1));
+        this.addressRoot.set(updatedRoot);
+        this.spyCount.set(incrementedCount);
+
+        this.emitEvent("Successfully stored an address", addressDigest);
+    }
+
+    /**
+     * Store the next message of the sender.
+     * @param addressWitness Merkle Map witness of the sender address digest in the address map
+     * @param sequence number of messages the sender has sent so far, below 2^32
+     * @param message
+     * @param messageWitness Merkle Map witness of `messageKey(senderAddressDigest, sequence)` in the message map
+     */
+    @method checkAndStoreMessage(addressWitness: MerkleMapWitness, sequence: Field, message: Field, messageWitness: MerkleMapWitness) {
+        // the sender signs so that nobody can send a message in the sequence of another spy
+        const senderAddressDigest = signedSenderDigest(this.sender);
+
+        /*
+        - range check the sequence number before it is used in the address leaf or compared to the limit
+            --> field comparisons are unsound above 253 bits, and `Field(-1)` would prove the empty leaf
+                of an address that was never enrolled
+        */
+        sequence.toBits(32);
+        const addressLeaf = sequence.add(1);
+        addressLeaf.assertNotEquals(0, 'Your account is not eligible to send a message!');
+
+        /*
+        1. check that the sender is enrolled
+        2. check that the submission is proven against the current sequence number of the sender
+            --> a replayed or reordered submission no longer matches the address leaf
+        */
+        const [addressRoot, addressKey] = addressWitness.computeRootAndKey(addressLeaf);
+        addressKey.assertEquals(senderAddressDigest, 'Your account is not eligible to send a message!');
+        this.addressRoot.getAndRequireEquals().assertEquals(addressRoot, 'Your account is not eligible to send a message or the sequence number is not current!');
+
+        sequence.assertLessThan(this.messageLimit.getAndRequireEquals(), 'Reached the per-spy message limit!');
+
+        // check that the message key of the sequence number is empty and the off-chain message storage is in sync
+        const [currentRoot, key] = messageWitness.computeRootAndKey(Field(0));
+        key.assertEquals(messageKey(senderAddressDigest, sequence), 'Message witness does not match the sender and sequence number!');
+        this.messageRoot.getAndRequireEquals().assertEquals(currentRoot, 'Off-chain message merkle map is out of sync!');
+
+        // an empty message cannot be told apart from an empty key
+        message.assertNotEquals(0, 'Cannot store an empty message!');
+        validateMessage(message);
+
+        const [updatedMessageRoot] = messageWitness.computeRootAndKey(message);
+        this.messageRoot.set(updatedMessageRoot);
+
+        // move the sender to the next sequence number
+        const [updatedAddressRoot] = addressWitness.computeRootAndKey(sequence.add(2));
+        this.addressRoot.set(updatedAddressRoot);
+
+        // the message count covers the messages of all spies
+        this.messageCount.set(this.messageCount.getAndRequireEquals().add(1));
+
+        this.emitEvent("Successfully stored a message", new SequencedMessageEvent({ addressDigest: senderAddressDigest, sequence, message }));
+    }
+}
+
+/**
+ * Off-chain storage client of a `SequencedMessageVault`.
+ *
+ * The message history of a spy is read back from the maps: the address leaf tells how many messages
+ * the spy has sent, and each of them sits at its `messageKey` in the message map.
+ */
+class SequencedVaultStorage {
+    readonly addressMap: MerkleMap;
+    readonly messageMap: MerkleMap;
+
+    constructor(public zkapp: SequencedMessageVault) {
+        this.addressMap = new MerkleMap();
+        this.messageMap = new MerkleMap();
+    }
+
+    static hashAddress(address: PublicKey) {
+        return Poseidon.hash(address.toFields());
+    }
+
+    /**
+     * Rebuild the off-chain storage of a vault by replaying its on-chain events.
+     *
+     * Throws if the rebuilt roots do not match the on-chain roots.
+     */
+    static async fromEvents(zkapp: SequencedMessageVault) {
+        const storage = new SequencedVaultStorage(zkapp);
+        const events = await zkapp.fetchEvents();
+
+        for (const { type, event } of events) {
+            if (type === "Successfully stored an address") {
+                storage.applyUpdate({ map: 'address', key: event.data as unknown as Field, value: Field(1) });
+            } else if (type === "Successfully stored a message") {
+                const { addressDigest, sequence, message } = event.data as unknown as SequencedMessageEvent;
+                for (const update of messageUpdates(addressDigest, sequence, message)) storage.applyUpdate(update);
+            }
+        }
+
+        storage.assertSync();
+
+        return storage;
+    }
+
+    assertSync() {
+        if (!this.addressMap.getRoot().equals(this.zkapp.addressRoot.get()).toBoolean()) {
+            throw Error('Local address Merkle Map has drifted from the on-chain addressRoot!');
+        }
+
+        if (!this.messageMap.getRoot().equals(this.zkapp.messageRoot.get()).toBoolean()) {
+            throw Error('Local message Merkle Map has drifted from the on-chain messageRoot!');
+        }
+    }
+
+    isEnrolled(address: PublicKey) {
+        return !this.addressMap.get(SequencedVaultStorage.hashAddress(address)).equals(0).toBoolean();
+    }
+
+    /**
+     * The messages of a spy ordered by sequence number, the next sequence number is the length of the history.
+     */
+    getHistory(address: PublicKey) {
+        if (!this.isEnrolled(address)) throw Error(`Address ${address.toBase58()} is not stored in the vault!`);
+
+        // an enrolled address holds `sequence + 1`
+        const addressDigest = SequencedVaultStorage.hashAddress(address);
+        const sequence = Number(this.addressMap.get(addressDigest).toBigInt() - 1n);
+
+        return Array.from({ length: sequence }, (_, i) => this.messageMap.get(messageKey(addressDigest, Field(i))));
+    }
+
+    prepareStoreAddress(spyAddress: PublicKey) {
+        this.assertSync();
+
+        if (this.isEnrolled(spyAddress)) throw Error(`Address ${spyAddress.toBase58()} is already enrolled!`);
+
+        const addressDigest = SequencedVaultStorage.hashAddress(spyAddress);
+        const witness = this.addressMap.getWitness(addressDigest);
+
+        const update: PendingKeyUpdate = { map: 'address', key: addressDigest, value: Field(1) };
+
+        return { witness, update };
+    }
+
+    prepareStoreMessage(sender: PublicKey, message: Field) {
+        this.assertSync();
+
+        const sequence = Field(this.getHistory(sender).length);
+        if (sequence.greaterThanOrEqual(this.zkapp.messageLimit.get()).toBoolean()) {
+            throw Error(`Address ${sender.toBase58()} has reached the per-spy message limit!`);
+        }
+
+        const addressDigest = SequencedVaultStorage.hashAddress(sender);
+        const addressWitness = this.addressMap.getWitness(addressDigest);
+        const messageWitness = this.messageMap.getWitness(messageKey(addressDigest, sequence));
+
+        const updates = messageUpdates(addressDigest, sequence, message);
+
+        return { addressWitness, sequence, messageWitness, updates };
+    }
+
+    /**
+     * Apply a pending update to the local maps.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingKeyUpdate) {
+        (update.map === 'address' ? this.addressMap : this.messageMap).set(update.key, update.value);
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingKeyUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+}
+
+// a stored message fills its message key and moves the address leaf of the spy to the next sequence number
+function messageUpdates(addressDigest: Field, sequence: Field, message: Field): PendingKeyUpdate[] {
+    return [
+        { map: 'message', key: messageKey(addressDigest, sequence), value: message },
+        { map: 'address', key: addressDigest, value: sequence.add(2) },
+    ];
+}
@@ -0,0 +1,115 @@
+import { runCli, parseCommands } from './vault-cli';
+import { 
+  Field,
+  PrivateKey,
+} from 'o1js';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+describe('Vault CLI tests', () => {
+  let workDir: string,
+  configPath: string,
+  spyKey: PrivateKey,
+  spyKeyPath: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-cli-'));
+
+    configPath = path.join(workDir, 'config.json');
+    await fs.writeFile(configPath, JSON.stringify({ version: 1, deployAliases: { local: { url: 'local', fee: '0.1' } } }));
+
+    spyKey = PrivateKey.random();
+    spyKeyPath = path.join(workDir, 'spy.json');
+    await fs.writeFile(spyKeyPath, JSON.stringify({ privateKey: spyKey.toBase58(), publicKey: spyKey.toPublicKey().toBase58() }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(workDir, { recursive: true });
+  });
+
+  describe('command parsing', () => {
+    it('split chained commands and options', () => {
+      const { alias, configPath, commands } = parseCommands(['--alias', 'berkeley', 'deploy', '+', 'enroll', 'B62a', 'B62b', '+', 'status']);
+
+      expect(alias).toEqual('berkeley');
+      expect(configPath).toEqual('config.json');
+      expect(commands).toEqual([
+        { command: 'deploy', args: [] },
+        { command: 'enroll', args: ['B62a', 'B62b'] },
+        { command: 'status', args: [] },
+      ]);
+    });
+
+    it('default to the local alias', () => {
+      expect(parseCommands(['status']).alias).toEqual('local');
+    });
+  });
+
+  it('reject an unknown deploy alias', async () => {
+    await expect(runCli(['--alias', 'mainnet', 'status'], { configPath })).rejects.toThrowError(`Deploy alias mainnet is not defined in ${configPath}!`);
+  });
+
+  it('reject a network alias without a zkApp key file', async () => {
+    const networkConfigPath = path.join(workDir, 'network-config.json');
+    await fs.writeFile(networkConfigPath, JSON.stringify({ 
+      version: 1, 
+      deployAliases: { berkeley: { url: 'https://proxy.berkeley.minaexplorer.com/graphql', feepayerKeyPath: spyKeyPath } },
+    }));
+
+    await expect(runCli(['--alias', 'berkeley', 'status'], { configPath: networkConfigPath })).rejects.toThrowError('The deploy alias has no keyPath!');
+  });
+
+  it('reject an unknown command', async () => {
+    const expectedErrorMessage = 'Unknown command withdraw! Available commands are deploy, init, phases, reward, fund, enroll, submit and status.';
+    await expect(runCli(['withdraw'], { configPath, log: () => undefined })).rejects.toThrowError(expectedErrorMessage);
+  });
+
+  it('deploy, initialize, enroll, submit and report the status in a local session', async () => {
+    const logs: string[] = [];
+    const otherSpy = PrivateKey.random().toPublicKey();
+
+    const cli = await runCli([
+      'deploy', '+', 
+      'init', '+', 
+      'enroll', spyKey.toPublicKey().toBase58(), otherSpy.toBase58(), '+', 
+      'fund', '2', '+', 
+      'reward', '0.5', '+', 
+      'submit', spyKeyPath, '1234234324234234340011100', '+', 
+      'status',
+    ], { configPath, log: (line) => logs.push(line) });
+
+    const status = await cli.status();
+    expect(status.spyCount).toEqual(Field(1));
+    expect(status.messageCount).toEqual(Field(1));
+    expect(status.sync.inSync).toEqual(true);
+
+    expect(logs).toContain(`Enrolled ${otherSpy.toBase58()} at index 1`);
+    expect(logs).toContain(`Stored the message of ${spyKey.toPublicKey().toBase58()} at index 0`);
+
+    const statusLines = logs[logs.length - 1].split('\n');
+    expect(statusLines).toContain(`admin digest: ${status.adminDigest}`);
+    expect(statusLines).toContain('enrolled addresses (spyCount + 1): 2');
+    expect(statusLines).toContain('messageCount: 1');
+    expect(statusLines).toContain('phases: none, addresses and messages are accepted at any time');
+    expect(statusLines).toContain('reward: 0.5 MINA per message, balance: 1.5 MINA');
+    expect(statusLines).toContain('flag tallies: flag1 0, flag2 1, flag3 1, flag4 1, flag5 0, flag6 0');
+    expect(statusLines).toContain(`message root: ${status.sync.message.onchainRoot} (in sync with local storage)`);
+  });
+
+  it('stop the session at the first failing command', async () => {
+    const logs: string[] = [];
+
+    const session = runCli([
+      'deploy', '+', 
+      'init', '+', 
+      'enroll', spyKey.toPublicKey().toBase58(), '+', 
+      // flag 2 is true and flag 3 is false
+      'submit', spyKeyPath, '1234234324234234340010000', '+', 
+      'status',
+    ], { configPath, log: (line) => logs.push(line) });
+
+    await expect(session).rejects.toThrowError('Invalid Message! Rule2 is violated!');
+    expect(logs.some((line) => line.startsWith('vault:'))).toEqual(false);
+  });
+});
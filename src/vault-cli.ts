@@ -0,0 +1,375 @@
+import fs from 'fs/promises';
+import {
+    Field,
+    Mina,
+    PrivateKey,
+    PublicKey,
+    AccountUpdate,
+    UInt64,
+    fetchAccount,
+} from 'o1js';
+import { MessageVault } from './message-vault.js';
+import { VaultStorage, VaultSyncReport } from './vault-storage.js';
+import { UpgradePolicy } from './vault-permissions.js';
+import { FlagTallies } from './flag-tallies.js';
+import { VaultPhases } from './vault-phases.js';
+
+export {
+    VaultCli,
+    DeployAlias,
+    VaultStatus,
+    CliOptions,
+    localUrl,
+    parseCommands,
+    formatStatus,
+    runCli,
+}
+
+// `url` of a deploy alias that runs against an in-memory LocalBlockchain
+const localUrl = 'local';
+
+/**
+ * A deploy alias of `config.json`, same fields as the ones written by the zkApp CLI.
+ */
+type DeployAlias = {
+    url: string;
+    keyPath?: string;
+    feepayerKeyPath?: string;
+    fee?: string;
+    upgradePolicy?: UpgradePolicy;
+}
+
+type VaultStatus = {
+    address: PublicKey;
+    adminDigest: Field;
+    spyCount: Field;
+    messageCount: Field;
+    flagTallies: FlagTallies;
+    phases: VaultPhases;
+    reward: UInt64;
+    balance: UInt64;
+    sync: VaultSyncReport;
+}
+
+type CliOptions = {
+    configPath?: string;
+    log?: (line: string) => void;
+}
+
+/**
+ * Operations on a deployed vault, keeping a `VaultStorage` in sync along the way.
+ *
+ * Against a LocalBlockchain the chain only lives as long as the process,
+ * so all commands of a session must go through the same `VaultCli`.
+ */
+class VaultCli {
+    constructor(
+        readonly zkapp: MessageVault,
+        readonly storage: VaultStorage,
+        private zkappKey: PrivateKey,
+        private feePayerKey: PrivateKey,
+        private fee: UInt64,
+        private isLocal: boolean,
+        private upgradePolicy: UpgradePolicy = 'immutable',
+        private log: (line: string) => void = console.log,
+    ) {}
+
+    /**
+     * Connect to the network of a deploy alias, or to a new LocalBlockchain for the `local` url.
+     */
+    static async connect(alias: DeployAlias, log?: (line: string) => void) {
+        const isLocal = alias.url === localUrl;
+
+        let feePayerKey: PrivateKey;
+        if (isLocal) {
+            const Local = Mina.LocalBlockchain({ proofsEnabled: false });
+            Mina.setActiveInstance(Local);
+
+            feePayerKey = alias.feepayerKeyPath ? await readKeyFile(alias.feepayerKeyPath) : Local.testAccounts[0].privateKey;
+        } else {
+            // a random zkApp key would be lost once the vault is deployed, later sessions could not find the vault again
+            if (!alias.keyPath) throw Error('The deploy alias has no keyPath!');
+            if (!alias.feepayerKeyPath) throw Error('The deploy alias has no feepayerKeyPath!');
+
+            Mina.setActiveInstance(Mina.Network(alias.url));
+            feePayerKey = await readKeyFile(alias.feepayerKeyPath);
+        }
+
+        // a local vault only lives as long as the session, so it does not need a key file
+        const zkappKey = alias.keyPath ? await readKeyFile(alias.keyPath) : PrivateKey.random();
+        const fee = parseMina(alias.fee ?? '0');
+
+        const zkapp = new MessageVault(zkappKey.toPublicKey());
+
+        // an already deployed vault on a network is picked up from its events
+        const storage = !isLocal && await isDeployed(zkapp) ? await VaultStorage.fromEvents(zkapp) : new VaultStorage(zkapp);
+
+        return new VaultCli(zkapp, storage, zkappKey, feePayerKey, fee, isLocal, alias.upgradePolicy, log);
+    }
+
+    async deploy() {
+        const feePayer = this.feePayerKey.toPublicKey();
+
+        const deployTxn = await Mina.transaction({ sender: feePayer, fee: this.fee }, () => {
+            AccountUpdate.fundNewAccount(feePayer);
+            this.zkapp.deploy({ upgradePolicy: this.upgradePolicy });
+        });
+        await this.send(deployTxn, [this.feePayerKey, this.zkappKey]);
+
+        this.log(`Deployed the vault at ${this.zkapp.address.toBase58()}`);
+    }
+
+    /**
+     * Initialize the vault, the fee payer becomes its admin.
+     */
+    async init() {
+        const initTxn = await Mina.transaction({ sender: this.feePayerKey.toPublicKey(), fee: this.fee }, () => {
+            this.zkapp.initVault();
+        });
+        await this.send(initTxn, [this.feePayerKey]);
+
+        this.log(`Initialized the vault with admin ${this.feePayerKey.toPublicKey().toBase58()}`);
+    }
+
+    /**
+     * Set the enrollment and submission deadlines of the vault as block heights.
+     */
+    async setPhases(phases: VaultPhases) {
+        const phasesTxn = await Mina.transaction({ sender: this.feePayerKey.toPublicKey(), fee: this.fee }, () => {
+            this.zkapp.setPhases(phases);
+        });
+        await this.send(phasesTxn, [this.feePayerKey]);
+
+        this.log(`Set the enrollment deadline to block ${phases.enrollmentDeadline} and the submission deadline to block ${phases.submissionDeadline}`);
+    }
+
+    /**
+     * Set the reward paid for each message, in nanomina.
+     */
+    async setReward(reward: UInt64) {
+        const rewardTxn = await Mina.transaction({ sender: this.feePayerKey.toPublicKey(), fee: this.fee }, () => {
+            this.zkapp.setReward(reward);
+        });
+        await this.send(rewardTxn, [this.feePayerKey]);
+
+        this.log(`Set the message reward to ${formatMina(reward)} MINA`);
+    }
+
+    /**
+     * Fund the vault balance the rewards are paid from, in nanomina.
+     */
+    async fund(amount: UInt64) {
+        const feePayer = this.feePayerKey.toPublicKey();
+
+        const fundTxn = await Mina.transaction({ sender: feePayer, fee: this.fee }, () => {
+            AccountUpdate.createSigned(feePayer).send({ to: this.zkapp.address, amount });
+        });
+        await this.send(fundTxn, [this.feePayerKey]);
+
+        this.log(`Funded the vault with ${formatMina(amount)} MINA`);
+    }
+
+    async enroll(spyAddresses: PublicKey[]) {
+        for (const spyAddress of spyAddresses) {
+            await this.refresh();
+            const { witness, update } = this.storage.prepareStoreAddress(spyAddress);
+
+            const storeTxn = await Mina.transaction({ sender: this.feePayerKey.toPublicKey(), fee: this.fee }, () => {
+                this.zkapp.storeAddress(spyAddress, witness);
+            });
+            await this.send(storeTxn, [this.feePayerKey]);
+            this.storage.applyUpdate(update);
+
+            this.log(`Enrolled ${spyAddress.toBase58()} at index ${update.index}`);
+        }
+    }
+
+    /**
+     * Submit a message signed and paid for by the spy, who is paid the message reward.
+     *
+     * On a LocalBlockchain a spy account that does not exist yet is funded by the fee payer.
+     */
+    async submit(spyKey: PrivateKey, message: Field) {
+        const spyAddress = spyKey.toPublicKey();
+        if (this.isLocal && !Mina.hasAccount(spyAddress)) await this.fundLocalAccount(spyAddress);
+
+        await this.refresh();
+        const { addressWitness, messageWitness, update } = this.storage.prepareStoreMessage(spyAddress, message);
+
+        const messageTxn = await Mina.transaction({ sender: spyAddress, fee: this.fee }, () => {
+            this.zkapp.checkAndStoreMessageWithPayout(addressWitness, message, messageWitness, spyAddress);
+        });
+        await this.send(messageTxn, [spyKey]);
+        this.storage.applyUpdate(update);
+
+        this.log(`Stored the message of ${spyAddress.toBase58()} at index ${update.index}`);
+    }
+
+    async status(): Promise<VaultStatus> {
+        await this.refresh();
+
+        return {
+            address: this.zkapp.address,
+            adminDigest: this.zkapp.adminAddress.get(),
+            spyCount: this.zkapp.spyCount.get(),
+            messageCount: this.zkapp.messageCount.get(),
+            flagTallies: this.zkapp.getFlagTallies(),
+            phases: this.zkapp.getPhases(),
+            reward: this.zkapp.getReward(),
+            balance: this.zkapp.account.balance.get(),
+            sync: this.storage.checkSync(),
+        };
+    }
+
+    /**
+     * Run a single command of the command line.
+     */
+    async run(command: string, args: string[]) {
+        switch (command) {
+            case 'deploy':
+                return this.deploy();
+            case 'init':
+                return this.init();
+            case 'phases':
+                if (args.length !== 2) throw Error('Usage: phases <enrollmentDeadline> <submissionDeadline>');
+                return this.setPhases(VaultPhases.from(BigInt(args[0]), BigInt(args[1])));
+            case 'reward':
+                if (args.length !== 1) throw Error('Usage: reward <mina>');
+                return this.setReward(parseMina(args[0]));
+            case 'fund':
+                if (args.length !== 1) throw Error('Usage: fund <mina>');
+                return this.fund(parseMina(args[0]));
+            case 'enroll':
+                if (args.length === 0) throw Error('Usage: enroll <spyPublicKey...>');
+                return this.enroll(args.map((address) => PublicKey.fromBase58(address)));
+            case 'submit':
+                if (args.length !== 2) throw Error('Usage: submit <spyKeyPath> <message>');
+                return this.submit(await readKeyFile(args[0]), Field(args[1]));
+            case 'status':
+                return this.log(formatStatus(await this.status()));
+            default:
+                throw Error(`Unknown command ${command}! Available commands are deploy, init, phases, reward, fund, enroll, submit and status.`);
+        }
+    }
+
+    // state reads need a fresh copy of the vault account on a network
+    private async refresh() {
+        if (!this.isLocal) await fetchAccount({ publicKey: this.zkapp.address });
+    }
+
+    private async fundLocalAccount(address: PublicKey) {
+        const feePayer = this.feePayerKey.toPublicKey();
+
+        const fundTxn = await Mina.transaction(feePayer, () => {
+            AccountUpdate.fundNewAccount(feePayer);
+            AccountUpdate.createSigned(feePayer).send({ to: address, amount: UInt64.from(10e9) });
+        });
+        await this.send(fundTxn, [this.feePayerKey]);
+    }
+
+    // off-chain storage updates are only applied once `send` returns, i.e. the transaction is included
+    private async send(txn: Mina.Transaction, keys: PrivateKey[]) {
+        await txn.prove();
+        const txId = await txn.sign(keys).send();
+
+        if (!txId.isSuccess) throw Error('Transaction was not successful!');
+
+        // a LocalBlockchain applies the transaction right away
+        if (!this.isLocal) await txId.wait();
+    }
+}
+
+/*
+- several commands can be chained with `+` in a single invocation
+    --> required for the local backend, its chain is lost when the process exits
+*/
+function parseCommands(argv: string[]) {
+    let alias = localUrl;
+    let configPath = 'config.json';
+
+    const commands: { command: string, args: string[] }[] = [];
+    let current: string[] = [];
+    const flush = () => {
+        if (current.length > 0) commands.push({ command: current[0], args: current.slice(1) });
+        current = [];
+    }
+
+    for (let i=0; i<argv.length; i++) {
+        if (argv[i] === '--alias') alias = argv[++i];
+        else if (argv[i] === '--config') configPath = argv[++i];
+        else if (argv[i] === '+') flush();
+        else current.push(argv[i]);
+    }
+    flush();
+
+    if (alias === undefined || configPath === undefined) throw Error('Missing value for --alias or --config!');
+
+    return { alias, configPath, commands };
+}
+
+function formatStatus(status: VaultStatus) {
+    const syncLabel = (inSync: boolean) => inSync ? 'in sync with local storage' : 'drifted from local storage';
+
+    return [
+        `vault: ${status.address.toBase58()}`,
+        `admin digest: ${status.adminDigest}`,
+        // `spyCount` starts at Field(-1) and holds the index of the last enrolled address
+        `enrolled addresses (spyCount + 1): ${status.spyCount.add(1)}`,
+        `messageCount: ${status.messageCount}`,
+        `phases: ${formatPhases(status.phases)}`,
+        `reward: ${formatMina(status.reward)} MINA per message, balance: ${formatMina(status.balance)} MINA`,
+        `flag tallies: ${Object.entries(status.flagTallies).map(([name, tally]) => `${name} ${tally}`).join(', ')}`,
+        `address root: ${status.sync.address.onchainRoot} (${syncLabel(status.sync.address.inSync)})`,
+        `message root: ${status.sync.message.onchainRoot} (${syncLabel(status.sync.message.inSync)})`,
+    ].join('\n');
+}
+
+function parseMina(amount: string) {
+    return UInt64.from(Math.round(Number(amount) * 1e9));
+}
+
+function formatMina(amount: UInt64) {
+    return (Number(amount.toBigInt()) / 1e9).toString();
+}
+
+function formatPhases(phases: VaultPhases) {
+    if (!phases.isSet().toBoolean()) return 'none, addresses and messages are accepted at any time';
+
+    return `enrollment until block ${phases.enrollmentDeadline}, submission until block ${phases.submissionDeadline}`;
+}
+
+async function isDeployed(zkapp: MessageVault) {
+    const { account } = await fetchAccount({ publicKey: zkapp.address });
+    return account?.zkapp !== undefined;
+}
+
+async function readKeyFile(path: string) {
+    const { privateKey } = JSON.parse(await fs.readFile(path, 'utf8'));
+    return PrivateKey.fromBase58(privateKey);
+}
+
+async function readDeployAlias(configPath: string, alias: string): Promise<DeployAlias> {
+    const config = JSON.parse(await fs.readFile(configPath, 'utf8'));
+
+    const deployAlias = config.deployAliases?.[alias];
+    if (deployAlias === undefined) throw Error(`Deploy alias ${alias} is not defined in ${configPath}!`);
+
+    return deployAlias;
+}
+
+/**
+ * Entry point of the command line, e.g. `deploy + init + enroll <spyPublicKey> + status`.
+ */
+async function runCli(argv: string[], options: CliOptions = {}) {
+    const { alias, configPath, commands } = parseCommands(argv);
+    const log = options.log ?? console.log;
+
+    const deployAlias = await readDeployAlias(options.configPath ?? configPath, alias);
+    const cli = await VaultCli.connect(deployAlias, log);
+
+    for (const { command, args } of commands) {
+        await cli.run(command, args);
+    }
+
+    return cli;
+}
@@ -0,0 +1,48 @@
+import { DeployArgs, Permissions, SmartContract } from 'o1js';
+
+export {
+    UpgradePolicy,
+    VaultDeployArgs,
+    vaultPermissions,
+    VaultContract,
+}
+
+/**
+ * Who can change the verification key and the permissions of a deployed vault.
+ *
+ * - immutable: nobody, the vault can never be upgraded.
+ * - signature: the holder of the zkapp key.
+ */
+type UpgradePolicy = 'immutable' | 'signature';
+
+type VaultDeployArgs = NonNullable<DeployArgs> & { upgradePolicy?: UpgradePolicy };
+
+/**
+ * Account permissions set by the vaults on deploy.
+ *
+ * Only `setVerificationKey` and `setPermissions` differ from `Permissions.default()`, they follow the
+ * upgrade policy so the zkapp key cannot swap the contract or loosen the default `proof` permissions
+ * on state, actions and balance.
+ */
+function vaultPermissions(upgradePolicy: UpgradePolicy = 'immutable') {
+    const upgradePermission = upgradePolicy === 'signature' ? Permissions.signature() : Permissions.impossible();
+
+    return {
+        ...Permissions.default(),
+        setVerificationKey: upgradePermission,
+        setPermissions: upgradePermission,
+    };
+}
+
+/**
+ * Smart contract deployed with `vaultPermissions`, the common base of the vault contracts.
+ *
+ * Initialization needs no extra guard in the subclasses: `SmartContract.init()` requires
+ * `provedState` to be false, which no longer holds once an `initVault` proof has set the state.
+ */
+class VaultContract extends SmartContract {
+    deploy(args: VaultDeployArgs = {}) {
+        super.deploy(args);
+        this.account.permissions.set(vaultPermissions(args.upgradePolicy));
+    }
+}
@@ -0,0 +1,83 @@
+import {
+    Bool,
+    Provable,
+    SmartContract,
+    Struct,
+    UInt32,
+} from 'o1js';
+
+export {
+    VaultPhases,
+    BlockHeightWindow,
+    requireBlockHeightWindow,
+}
+
+type BlockHeightWindow = { lower: UInt32, upper: UInt32 };
+
+/**
+ * Enrollment and submission deadlines of a vault, both are inclusive block heights.
+ *
+ * - enrollment: addresses can be stored up to `enrollmentDeadline`.
+ * - submission: messages can be stored after `enrollmentDeadline` up to `submissionDeadline`.
+ * - sealed: after `submissionDeadline` neither the address nor the message commitment can change.
+ *
+ * A vault without phases, i.e. both deadlines at zero, accepts addresses and messages at any time.
+ */
+class VaultPhases extends Struct({
+    enrollmentDeadline: UInt32,
+    submissionDeadline: UInt32,
+}) {
+    static from(enrollmentDeadline: number | bigint, submissionDeadline: number | bigint) {
+        return new VaultPhases({ enrollmentDeadline: UInt32.from(enrollmentDeadline), submissionDeadline: UInt32.from(submissionDeadline) });
+    }
+
+    static unpack(packedPhases: bigint) {
+        return VaultPhases.from(packedPhases % 2n ** 32n, packedPhases >> 32n);
+    }
+
+    // both deadlines in 64 bits, the enrollment deadline in the lowest bits
+    pack() {
+        return this.enrollmentDeadline.value.add(this.submissionDeadline.value.mul(2n ** 32n));
+    }
+
+    // the submission deadline comes after the enrollment deadline, so it is only zero for a vault without phases
+    isSet(): Bool {
+        return this.submissionDeadline.value.equals(0).not();
+    }
+
+    enrollmentWindow(): BlockHeightWindow {
+        return {
+            lower: UInt32.zero,
+            upper: Provable.if(this.isSet(), this.enrollmentDeadline, UInt32.MAXINT()),
+        };
+    }
+
+    submissionWindow(): BlockHeightWindow {
+        return {
+            lower: Provable.if(this.isSet(), this.enrollmentDeadline.add(1), UInt32.zero),
+            upper: Provable.if(this.isSet(), this.submissionDeadline, UInt32.MAXINT()),
+        };
+    }
+
+    // any time before the vault is sealed
+    unsealedWindow(): BlockHeightWindow {
+        return {
+            lower: UInt32.zero,
+            upper: Provable.if(this.isSet(), this.submissionDeadline, UInt32.MAXINT()),
+        };
+    }
+}
+
+/**
+ * Require the transaction to be included within a window of block heights.
+ *
+ * The current block height is only read to fail early with a clear error,
+ * the precondition is what the network checks on inclusion.
+ */
+function requireBlockHeightWindow(vault: SmartContract, window: BlockHeightWindow, tooEarlyError: string, tooLateError: string) {
+    const blockHeight = vault.network.blockchainLength.get();
+    blockHeight.assertGreaterThanOrEqual(window.lower, tooEarlyError);
+    blockHeight.assertLessThanOrEqual(window.upper, tooLateError);
+
+    vault.network.blockchainLength.requireBetween(window.lower, window.upper);
+}
@@ -0,0 +1,327 @@
+import { 
+  MessageVault, 
+  MessageStoredEvent,
+} from './message-vault';
+import { 
+  VaultStorage,
+  VaultSnapshot,
+} from './vault-storage';
+import { 
+  Field,
+  Mina,
+  PublicKey,
+  PrivateKey,
+  AccountUpdate,
+} from 'o1js';
+
+const proofsEnabled = false;
+
+describe('Vault Storage: Off-chain Client Tests', () => {
+  let deployerKey: PrivateKey,
+  spyKey: PrivateKey, 
+  zkappAddress: PublicKey,
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage;
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    // use a pre-funded test account as spy to avoid funding it
+    spyKey = Local.testAccounts[1].privateKey;
+    
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkappAddress = zkappPrivateKey.toPublicKey();
+    zkapp = new MessageVault(zkappAddress);
+
+    // initialize the off-chain storage client
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerKey.toPublicKey(), () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(senderKey: PrivateKey, message: Field) { 
+    let senderAddress = senderKey.toPublicKey();
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should deploy and initialize `MessageVault` with a storage client in sync', async () => {
+    const deployerAccount = deployerKey.toPublicKey();
+
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should build correctly-indexed witnesses to store addresses', async () => {
+    for (let i=0; i<3; i++) await storeAddress(PrivateKey.random().toPublicKey());
+    await storeAddress(spyKey.toPublicKey());
+
+    expect(storage.getAddressIndex(spyKey.toPublicKey())).toEqual(3n);
+    expect(storage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+  });
+
+  it('should reject preparing a witness for an already stored address', () => {
+    const expectedErrorMessage = `Address ${spyKey.toPublicKey().toBase58()} is already stored in the vault!`;
+    expect(() => storage.prepareStoreAddress(spyKey.toPublicKey())).toThrowError(expectedErrorMessage);
+  });
+
+  it('should build witnesses to store a message from an eligible address', async () => {
+    const message = Field(123423432423423434100000n);
+    await storeMessage(spyKey, message);
+
+    expect(storage.messageTree.getNode(0, 3n)).toEqual(message);
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should emit structured events for stored addresses and messages', async () => {
+    const events = await zkapp.fetchEvents();
+
+    const addressEvents = events.filter((e) => e.type === 'Successfully stored an address');
+    expect(addressEvents.length).toEqual(4);
+
+    const messageEvents = events.filter((e) => e.type === 'Successfully stored a message');
+    expect(messageEvents.length).toEqual(1);
+
+    const { index, message } = messageEvents[0].event.data as unknown as MessageStoredEvent;
+    expect(index).toEqual(Field(3));
+    expect(message).toEqual(Field(123423432423423434100000n));
+  });
+
+  it('should rebuild the off-chain storage from contract events', async () => {
+    const rebuiltStorage = await VaultStorage.fromEvents(zkapp);
+
+    expect(rebuiltStorage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+    expect(rebuiltStorage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+    expect(rebuiltStorage.getAddressIndex(spyKey.toPublicKey())).toEqual(3n);
+
+    // the rebuilt storage is usable to build witnesses for the next address
+    const { update } = rebuiltStorage.prepareStoreAddress(PrivateKey.random().toPublicKey());
+    expect(update.index).toEqual(4n);
+  });
+
+  it('should reject preparing witnesses for a non-stored address', () => {
+    const impostorAddress = PrivateKey.random().toPublicKey();
+
+    const expectedErrorMessage = `Address ${impostorAddress.toBase58()} is not stored in the vault!`;
+    expect(() => storage.prepareStoreMessage(impostorAddress, Field(100000))).toThrowError(expectedErrorMessage);
+  });
+
+  it('should not apply a pending update of a failed transaction', async () => {
+    const { witness, update } = storage.prepareStoreAddress(PrivateKey.random().toPublicKey());
+    
+    // a sender other than the admin makes the transaction fail
+    await expect(Mina.transaction(spyKey.toPublicKey(), () => {
+      zkapp.storeAddress(PrivateKey.random().toPublicKey(), witness);
+    })).rejects.toThrowError('Only Admin is allowed to call this method!');
+
+    expect(storage.addressTree.getNode(0, update.index)).toEqual(Field(0));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+
+  it('should report drift instead of building witnesses against an out-of-sync tree', () => {
+    // tamper with the local address Merkle Tree
+    storage.addressTree.setLeaf(10n, Field.random());
+
+    const report = storage.checkSync();
+    expect(report.inSync).toEqual(false);
+    expect(report.address.inSync).toEqual(false);
+    expect(report.message.inSync).toEqual(true);
+
+    const expectedErrorMessage = 'Local address Merkle Tree has drifted from the on-chain addressCommitment!';
+    expect(() => storage.prepareStoreAddress(PrivateKey.random().toPublicKey())).toThrowError(expectedErrorMessage);
+    expect(() => storage.prepareStoreMessage(spyKey.toPublicKey(), Field(100000))).toThrowError(expectedErrorMessage);
+
+    // fix the local address Merkle Tree
+    storage.addressTree.setLeaf(10n, Field(0));
+    expect(storage.checkSync().inSync).toEqual(true);
+  });
+});
+
+describe('Vault Storage: Snapshot Tests', () => {
+  let deployerKey: PrivateKey,
+  deployerAccount: PublicKey,
+  spyKeys: PrivateKey[],
+  zkappPrivateKey: PrivateKey,
+  zkapp: MessageVault,
+  storage: VaultStorage,
+  staleSnapshot: VaultSnapshot,
+  snapshot: VaultSnapshot;
+
+  const message = Field(123423432423423434100000n);
+
+  beforeAll(async () => {
+    if (proofsEnabled) await MessageVault.compile();
+
+    // setup local blockchain
+    const Local = Mina.LocalBlockchain({ proofsEnabled });
+    Mina.setActiveInstance(Local);
+
+    deployerKey = Local.testAccounts[0].privateKey;
+    deployerAccount = deployerKey.toPublicKey();
+    spyKeys = Array.from({ length: 50 }, () => PrivateKey.random());
+
+    // zkapp account
+    zkappPrivateKey = PrivateKey.random();
+    zkapp = new MessageVault(zkappPrivateKey.toPublicKey());
+    storage = new VaultStorage(zkapp);
+  });
+
+  async function storeAddress(spyAddress: PublicKey) { 
+    let { witness, update } = storage.prepareStoreAddress(spyAddress);
+
+    let storeTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.storeAddress(spyAddress, witness);
+    });
+    await storeTxn.prove();
+    let txId = await storeTxn.sign([deployerKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  async function storeMessage(senderKey: PrivateKey) { 
+    let senderAddress = senderKey.toPublicKey();
+
+    // fund the spy account to pay for the transaction fees
+    let fundTxn = await Mina.transaction(deployerAccount, () => {
+      let senderUpdate = AccountUpdate.fundNewAccount(deployerAccount);
+      senderUpdate.send({ to: senderAddress, amount: 1_100_000_000 });
+    });
+    await fundTxn.prove();
+    await fundTxn.sign([deployerKey]).send();
+
+    let { addressWitness, messageWitness, update } = storage.prepareStoreMessage(senderAddress, message);
+
+    let messageTxn = await Mina.transaction(senderAddress, () => {
+      zkapp.checkAndStoreMessage(addressWitness, message, messageWitness);
+    });
+    await messageTxn.prove();
+    let txId = await messageTxn.sign([senderKey]).send();
+
+    await storage.applyWhenIncluded(txId, update);
+  }
+
+  it('should take a snapshot of a vault with 40 addresses and 10 messages', async () => {
+    const deployTxn = await Mina.transaction(deployerAccount, () => {
+      AccountUpdate.fundNewAccount(deployerAccount);
+      zkapp.deploy();
+    });
+    await deployTxn.prove();
+    await deployTxn.sign([deployerKey, zkappPrivateKey]).send();
+    
+    const initTxn = await Mina.transaction(deployerAccount, () => {
+      zkapp.initVault();
+    });
+    await initTxn.prove();
+    await initTxn.sign([deployerKey]).send();
+
+    for (const spyKey of spyKeys.slice(0, 40)) await storeAddress(spyKey.toPublicKey());
+    for (const spyKey of spyKeys.slice(0, 10)) await storeMessage(spyKey);
+
+    staleSnapshot = JSON.parse(JSON.stringify(storage.toSnapshot()));
+
+    expect(staleSnapshot.addressLeaves.length).toEqual(40);
+    expect(staleSnapshot.messageLeaves.length).toEqual(10);
+    expect(staleSnapshot.spyCount).toEqual('39');
+  });
+
+  it('should round-trip a snapshot of a vault with 50 addresses and 20 messages', async () => {
+    for (const spyKey of spyKeys.slice(40)) await storeAddress(spyKey.toPublicKey());
+    for (const spyKey of spyKeys.slice(10, 20)) await storeMessage(spyKey);
+
+    snapshot = JSON.parse(JSON.stringify(storage.toSnapshot()));
+    const { storage: loadedStorage, report } = VaultStorage.fromSnapshot(zkapp, snapshot);
+
+    expect(report.inSync).toEqual(true);
+    expect(loadedStorage.addressTree.getRoot()).toEqual(zkapp.addressCommitment.get());
+    expect(loadedStorage.messageTree.getRoot()).toEqual(zkapp.messageCommitment.get());
+    expect(loadedStorage.getAddressIndex(spyKeys[42].toPublicKey())).toEqual(42n);
+    expect(loadedStorage.messageTree.getNode(0, 19n)).toEqual(message);
+    expect(await loadedStorage.diffFromEvents()).toEqual([]);
+
+    // the loaded storage is usable to build witnesses for the next address
+    const { update } = loadedStorage.prepareStoreAddress(PrivateKey.random().toPublicKey());
+    expect(update.index).toEqual(50n);
+  });
+
+  it('should report the commitments and counters a stale snapshot is behind', () => {
+    const { report } = VaultStorage.fromSnapshot(zkapp, staleSnapshot);
+
+    expect(report.inSync).toEqual(false);
+    expect(report.address.inSync).toEqual(false);
+    expect(report.message.inSync).toEqual(false);
+    expect(report.spyCount).toEqual({ snapshotCount: Field(39), onchainCount: Field(49), inSync: false });
+    expect(report.messageCount).toEqual({ snapshotCount: Field(10), onchainCount: Field(20), inSync: false });
+  });
+
+  it('should report and repair the leaves missing from a stale snapshot', async () => {
+    const { storage: staleStorage } = VaultStorage.fromSnapshot(zkapp, staleSnapshot);
+
+    const diffs = await staleStorage.diffFromEvents();
+    expect(diffs.filter((diff) => diff.tree === 'address').map((diff) => diff.index)).toEqual(Array.from({ length: 10 }, (_, i) => BigInt(40 + i)));
+    expect(diffs.filter((diff) => diff.tree === 'message').map((diff) => diff.index)).toEqual(Array.from({ length: 10 }, (_, i) => BigInt(10 + i)));
+    expect(diffs.every((diff) => diff.localValue.equals(0).toBoolean())).toEqual(true);
+
+    const repairedLeaves = await staleStorage.repairFromEvents();
+    expect(repairedLeaves).toEqual(diffs);
+    expect(staleStorage.checkSync().inSync).toEqual(true);
+    expect(staleStorage.getAddressIndex(spyKeys[45].toPublicKey())).toEqual(45n);
+    expect(await staleStorage.diffFromEvents()).toEqual([]);
+  });
+
+  it('should reject a snapshot with tampered leaves', () => {
+    const tamperedSnapshot: VaultSnapshot = { ...snapshot, messageLeaves: snapshot.messageLeaves.slice(1) };
+
+    expect(() => VaultStorage.fromSnapshot(zkapp, tamperedSnapshot)).toThrowError('Vault snapshot is corrupted! The message leaves do not match the recorded messageCommitment.');
+  });
+
+  it('should reject a snapshot with a tampered index map', () => {
+    const [[digest], ...entries] = snapshot.addressIndexMap;
+    const tamperedSnapshot: VaultSnapshot = { ...snapshot, addressIndexMap: [[digest, '49'], ...entries] };
+
+    expect(() => VaultStorage.fromSnapshot(zkapp, tamperedSnapshot)).toThrowError('Vault snapshot is corrupted! The address index map does not match the address leaves.');
+  });
+
+  it('should reject a snapshot of another vault', () => {
+    const otherVaultAddress = PrivateKey.random().toPublicKey().toBase58();
+
+    expect(() => VaultStorage.fromSnapshot(zkapp, { ...snapshot, vaultAddress: otherVaultAddress })).toThrowError('Vault snapshot was taken for another vault!');
+  });
+});
@@ -0,0 +1,685 @@
+import {
+    Field,
+    MerkleTree,
+    Mina,
+    Poseidon,
+    PrivateKey,
+    PublicKey,
+    Scalar,
+    Signature,
+} from 'o1js';
+import {
+    MessageVault,
+    SpyMerkleWitness,
+    MessageMerkleWitness,
+    AddressStoredEvent,
+    MessageStoredEvent,
+    relayMessagePayload,
+    committedMessageLeaf,
+} from './message-vault.js';
+import { MessagePayload, EncryptedMessage } from './message-encryption.js';
+import { MessageReceipt, createMessageReceipt } from './message-receipt.js';
+import {
+    BatchedMessage,
+    MessageBatch,
+    MessageBatchState,
+    applyBatchedMessage,
+    maxBatchSize,
+} from './message-batch.js';
+
+export {
+    VaultStorage,
+    SignedMessage,
+    RelayedMessage,
+    PendingLeafUpdate,
+    PendingKeyUpdate,
+    TreeSyncStatus,
+    VaultSyncReport,
+    VaultSnapshot,
+    CounterSyncStatus,
+    SnapshotReport,
+    LeafDiff,
+    PendingCommitment,
+}
+
+/**
+ * A leaf update that is only applied to the off-chain trees once the
+ * transaction that triggered it is confirmed.
+ */
+type PendingLeafUpdate = {
+    tree: 'address' | 'message';
+    index: bigint;
+    value: Field;
+}
+
+/**
+ * Merkle Map counterpart of `PendingLeafUpdate` for the vault layouts keyed by address digest.
+ */
+type PendingKeyUpdate = {
+    map: 'address' | 'message';
+    key: Field;
+    value: Field;
+}
+
+/**
+ * A message signed by its spy over `batchMessagePayload`, to be settled in a message batch.
+ */
+type SignedMessage = {
+    sender: PublicKey;
+    message: Field;
+    signature: Signature;
+}
+
+/**
+ * A message signed by its spy over `relayMessagePayload`, to be submitted by any relayer through `relayMessage`.
+ */
+type RelayedMessage = {
+    sender: PublicKey;
+    message: Field;
+    payoutAddress: PublicKey;
+    signature: Signature;
+}
+
+type TreeSyncStatus = {
+    localRoot: Field;
+    onchainRoot: Field;
+    inSync: boolean;
+}
+
+type VaultSyncReport = {
+    address: TreeSyncStatus;
+    message: TreeSyncStatus;
+    inSync: boolean;
+}
+
+/**
+ * A JSON-serializable copy of the off-chain storage of a vault, see `VaultStorage.toSnapshot`.
+ *
+ * Only non-empty leaves are kept as `[index, value]` pairs, fields and indexes are decimal strings.
+ * The commitments and counters are the on-chain ones at snapshot time.
+ */
+type VaultSnapshot = {
+    version: number;
+    vaultAddress: string;
+    addressLeaves: [string, string][];
+    messageLeaves: [string, string][];
+    addressIndexMap: [string, string][];
+    addressCommitment: string;
+    messageCommitment: string;
+    spyCount: string;
+    messageCount: string;
+}
+
+type CounterSyncStatus = {
+    snapshotCount: Field;
+    onchainCount: Field;
+    inSync: boolean;
+}
+
+type SnapshotReport = {
+    address: TreeSyncStatus;
+    message: TreeSyncStatus;
+    spyCount: CounterSyncStatus;
+    messageCount: CounterSyncStatus;
+    inSync: boolean;
+}
+
+/**
+ * A leaf of the local trees that differs from the leaf rebuilt from the chain history.
+ */
+type LeafDiff = {
+    tree: 'address' | 'message';
+    index: bigint;
+    localValue: Field;
+    onchainValue: Field;
+}
+
+/**
+ * A message commitment stored by `commitMessage` that is not revealed yet.
+ */
+type PendingCommitment = {
+    index: bigint;
+    addressDigest: Field;
+    commitment: Field;
+}
+
+// bumped whenever the layout of `VaultSnapshot` changes
+const snapshotVersion = 1;
+
+/**
+ * Off-chain storage client of a `MessageVault`.
+ *
+ * It owns the address and message Merkle Trees together with the address-index mapping
+ * and builds correctly-indexed witnesses for `storeAddress` and `checkAndStoreMessage`.
+ *
+ * Leaf updates are returned as pending updates and must only be applied after the
+ * corresponding transaction is confirmed, so the local trees never run ahead of the chain.
+ */
+class VaultStorage {
+    readonly addressTree: MerkleTree;
+    readonly messageTree: MerkleTree;
+    private addressIndexMap: Map<string, bigint>;
+    // latest commitment of each slot, only filled when replaying events
+    private commitments: Map<bigint, Field>;
+    // message tree roots after each replayed event, only filled when replaying events
+    private messageRoots: Field[];
+    private vaultClass: typeof MessageVault;
+
+    /**
+     * The trees and witnesses follow the size of the vault, see `createMessageVault`.
+     */
+    constructor(public zkapp: MessageVault) {
+        this.vaultClass = zkapp.constructor as typeof MessageVault;
+
+        const { height } = this.vaultClass.config;
+        this.addressTree = new MerkleTree(height);
+        this.messageTree = new MerkleTree(height);
+        this.addressIndexMap = new Map<string, bigint>();
+        this.commitments = new Map<bigint, Field>();
+        this.messageRoots = [this.messageTree.getRoot()];
+    }
+
+    static hashAddress(address: PublicKey) {
+        return Poseidon.hash(address.toFields());
+    }
+
+    getAddressIndex(address: PublicKey) {
+        return this.addressIndexMap.get(VaultStorage.hashAddress(address).toString());
+    }
+
+    /**
+     * Rebuild the off-chain storage of a vault by replaying its on-chain events.
+     *
+     * Throws if the rebuilt roots do not match the on-chain commitments.
+     */
+    static async fromEvents(zkapp: MessageVault) {
+        const storage = new VaultStorage(zkapp);
+        const events = await zkapp.fetchEvents();
+
+        for (const { type, event } of events) {
+            if (type === "Successfully stored an address") {
+                const { index, addressDigest } = event.data as unknown as AddressStoredEvent;
+                storage.applyUpdate({ tree: 'address', index: index.toBigInt(), value: addressDigest });
+            } else if (type === "Successfully stored a message") {
+                const { index, message } = event.data as unknown as MessageStoredEvent;
+                storage.applyUpdate({ tree: 'message', index: index.toBigInt(), value: message });
+            } else if (type === "Successfully committed a message") {
+                const { index, message: commitment } = event.data as unknown as MessageStoredEvent;
+                storage.commitments.set(index.toBigInt(), commitment);
+                storage.applyUpdate({ tree: 'message', index: index.toBigInt(), value: commitment });
+            } else if (type === "Successfully stored a batched message") {
+                const { index, message } = event.data as unknown as BatchedMessage;
+                // empty messages are the padding of the batch
+                if (!message.equals(0).toBoolean()) storage.applyUpdate({ tree: 'message', index: index.toBigInt(), value: message });
+            } else if (type === "Successfully rotated an address") {
+                const { index, addressDigest } = event.data as unknown as AddressStoredEvent;
+                storage.applyUpdate({ tree: 'address', index: index.toBigInt(), value: addressDigest });
+            } else if (type === "Successfully revoked an address") {
+                const index = (event.data as unknown as Field).toBigInt();
+                storage.applyUpdate({ tree: 'address', index, value: Field(0) });
+                storage.applyUpdate({ tree: 'message', index, value: Field(0) });
+            }
+
+            const messageRoot = storage.messageTree.getRoot();
+            if (!messageRoot.equals(storage.messageRoots[storage.messageRoots.length - 1]).toBoolean()) storage.messageRoots.push(messageRoot);
+        }
+
+        storage.assertSync();
+
+        return storage;
+    }
+
+    /**
+     * Compare the local roots against the on-chain `addressCommitment` and `messageCommitment`.
+     */
+    checkSync(): VaultSyncReport {
+        const addressStatus = compareRoots(this.addressTree.getRoot(), this.zkapp.addressCommitment.get());
+        const messageStatus = compareRoots(this.messageTree.getRoot(), this.zkapp.messageCommitment.get());
+
+        return {
+            address: addressStatus,
+            message: messageStatus,
+            inSync: addressStatus.inSync && messageStatus.inSync,
+        }
+    }
+
+    /**
+     * Throw a descriptive error if any local tree has drifted from its on-chain commitment.
+     */
+    assertSync() {
+        const report = this.checkSync();
+
+        if (!report.address.inSync) {
+            throw Error(`Local address Merkle Tree has drifted from the on-chain addressCommitment! local root: ${report.address.localRoot}, on-chain root: ${report.address.onchainRoot}`);
+        }
+
+        if (!report.message.inSync) {
+            throw Error(`Local message Merkle Tree has drifted from the on-chain messageCommitment! local root: ${report.message.localRoot}, on-chain root: ${report.message.onchainRoot}`);
+        }
+    }
+
+    /**
+     * Serialize the local trees and the address-index mapping, e.g. to persist them with `JSON.stringify`.
+     *
+     * Throws if the local trees have drifted, a snapshot is only taken of a storage in sync.
+     */
+    toSnapshot(): VaultSnapshot {
+        this.assertSync();
+
+        const addressLeaves: [string, string][] = [];
+        const messageLeaves: [string, string][] = [];
+        for (let index = 0n; index < this.allocatedSlots(); index++) {
+            const addressLeaf = this.addressTree.getNode(0, index);
+            const messageLeaf = this.messageTree.getNode(0, index);
+
+            if (!addressLeaf.equals(0).toBoolean()) addressLeaves.push([index.toString(), addressLeaf.toString()]);
+            if (!messageLeaf.equals(0).toBoolean()) messageLeaves.push([index.toString(), messageLeaf.toString()]);
+        }
+
+        return {
+            version: snapshotVersion,
+            vaultAddress: this.zkapp.address.toBase58(),
+            addressLeaves,
+            messageLeaves,
+            addressIndexMap: [...this.addressIndexMap.entries()].map(([digest, index]) => [digest, index.toString()]),
+            addressCommitment: this.addressTree.getRoot().toString(),
+            messageCommitment: this.messageTree.getRoot().toString(),
+            spyCount: this.zkapp.spyCount.get().toString(),
+            messageCount: this.zkapp.messageCount.get().toString(),
+        }
+    }
+
+    /**
+     * Load a snapshot taken by `toSnapshot` and check it against the current on-chain state.
+     *
+     * Throws if the snapshot belongs to another vault or is corrupted, i.e. its leaves do not match its own
+     * commitments or index map. A stale snapshot loads fine: the report tells which commitments and counters
+     * moved on since, and `diffFromEvents` or `repairFromEvents` tell and fill in the missing leaves.
+     */
+    static fromSnapshot(zkapp: MessageVault, snapshot: VaultSnapshot) {
+        if (snapshot.version !== snapshotVersion) {
+            throw Error(`Unsupported vault snapshot version ${snapshot.version}!`);
+        }
+
+        if (snapshot.vaultAddress !== zkapp.address.toBase58()) {
+            throw Error(`Vault snapshot was taken for another vault! snapshot vault: ${snapshot.vaultAddress}`);
+        }
+
+        const storage = new VaultStorage(zkapp);
+        for (const [index, value] of snapshot.addressLeaves) storage.applyUpdate({ tree: 'address', index: BigInt(index), value: Field(value) });
+        for (const [index, value] of snapshot.messageLeaves) storage.applyUpdate({ tree: 'message', index: BigInt(index), value: Field(value) });
+
+        if (storage.addressTree.getRoot().toString() !== snapshot.addressCommitment) {
+            throw Error('Vault snapshot is corrupted! The address leaves do not match the recorded addressCommitment.');
+        }
+
+        if (storage.messageTree.getRoot().toString() !== snapshot.messageCommitment) {
+            throw Error('Vault snapshot is corrupted! The message leaves do not match the recorded messageCommitment.');
+        }
+
+        // the index map is rebuilt from the address leaves, the recorded one must agree with it
+        const indexMapMatches = snapshot.addressIndexMap.length === storage.addressIndexMap.size
+            && snapshot.addressIndexMap.every(([digest, index]) => storage.addressIndexMap.get(digest) === BigInt(index));
+        if (!indexMapMatches) {
+            throw Error('Vault snapshot is corrupted! The address index map does not match the address leaves.');
+        }
+
+        const { address, message } = storage.checkSync();
+        const spyCount = compareCounts(Field(snapshot.spyCount), zkapp.spyCount.get());
+        const messageCount = compareCounts(Field(snapshot.messageCount), zkapp.messageCount.get());
+
+        const report: SnapshotReport = {
+            address,
+            message,
+            spyCount,
+            messageCount,
+            inSync: address.inSync && message.inSync && spyCount.inSync && messageCount.inSync,
+        }
+
+        return { storage, report };
+    }
+
+    /**
+     * List the leaves of the allocated slots that differ from the leaves rebuilt from the contract events.
+     *
+     * Throws if the chain history does not lead to the on-chain commitments, e.g. when events are pruned.
+     */
+    async diffFromEvents(): Promise<LeafDiff[]> {
+        const history = await VaultStorage.fromEvents(this.zkapp);
+
+        const diffs: LeafDiff[] = [];
+        for (let index = 0n; index < this.allocatedSlots(); index++) {
+            for (const tree of ['address', 'message'] as const) {
+                const localValue = (tree === 'address' ? this.addressTree : this.messageTree).getNode(0, index);
+                const onchainValue = (tree === 'address' ? history.addressTree : history.messageTree).getNode(0, index);
+
+                if (!localValue.equals(onchainValue).toBoolean()) diffs.push({ tree, index, localValue, onchainValue });
+            }
+        }
+
+        return diffs;
+    }
+
+    /**
+     * Overwrite the local leaves that differ from the chain history, e.g. after loading a stale snapshot.
+     *
+     * Returns the repaired leaves, the storage is in sync afterwards.
+     */
+    async repairFromEvents(): Promise<LeafDiff[]> {
+        const diffs = await this.diffFromEvents();
+        for (const { tree, index, onchainValue } of diffs) this.applyUpdate({ tree, index, value: onchainValue });
+
+        this.assertSync();
+
+        return diffs;
+    }
+
+    /**
+     * List the commitments stored by `commitMessage` that are not revealed yet, e.g. for the admin to chase the spies.
+     *
+     * They are read from the contract events and checked against the chain history,
+     * so revealed commitments and commitments purged by `revokeAddress` are left out.
+     */
+    async pendingCommitments(): Promise<PendingCommitment[]> {
+        const history = await VaultStorage.fromEvents(this.zkapp);
+
+        const pending: PendingCommitment[] = [];
+        for (const [index, commitment] of history.commitments) {
+            if (history.messageTree.getNode(0, index).equals(commitment).toBoolean()) {
+                pending.push({ index, addressDigest: history.addressTree.getNode(0, index), commitment });
+            }
+        }
+
+        return pending.sort((a, b) => Number(a.index - b.index));
+    }
+
+    /**
+     * List the roots the message tree went through, oldest first, to check a superseded receipt with `verifyMessageReceipt`.
+     *
+     * The roots are rebuilt from the contract events, the last one is the current `messageCommitment`.
+     */
+    async messageCommitmentHistory(): Promise<Field[]> {
+        const history = await VaultStorage.fromEvents(this.zkapp);
+
+        return history.messageRoots;
+    }
+
+    // `spyCount` holds the index of the last allocated slot, it starts at Field(-1)
+    private allocatedSlots() {
+        return this.zkapp.spyCount.get().add(1).toBigInt();
+    }
+
+    /**
+     * Build the witness for `storeAddress` at index `spyCount + 1`.
+     */
+    prepareStoreAddress(spyAddress: PublicKey) {
+        this.assertSync();
+
+        if (this.getAddressIndex(spyAddress) !== undefined) {
+            throw Error(`Address ${spyAddress.toBase58()} is already stored in the vault!`);
+        }
+
+        const index = this.zkapp.spyCount.get().add(1).toBigInt();
+        const witness = new this.vaultClass.SpyMerkleWitness(this.addressTree.getWitness(index));
+
+        const update: PendingLeafUpdate = {
+            tree: 'address',
+            index,
+            value: VaultStorage.hashAddress(spyAddress),
+        };
+
+        return { witness, update };
+    }
+
+    /**
+     * Build the address and message witnesses for `checkAndStoreMessage`,
+     * both pointing to the index where the sender address is stored.
+     */
+    prepareStoreMessage(sender: PublicKey, message: Field) {
+        this.assertSync();
+
+        const index = this.getAddressIndex(sender);
+        if (index === undefined) {
+            throw Error(`Address ${sender.toBase58()} is not stored in the vault!`);
+        }
+
+        const addressWitness = new this.vaultClass.SpyMerkleWitness(this.addressTree.getWitness(index));
+        const messageWitness = new this.vaultClass.MessageMerkleWitness(this.messageTree.getWitness(index));
+
+        const update: PendingLeafUpdate = {
+            tree: 'message',
+            index,
+            value: message,
+        };
+
+        return { addressWitness, messageWitness, update };
+    }
+
+    /**
+     * Build the witnesses for `commitMessage`, on the spy side.
+     *
+     * The salt must be kept until the message is revealed with `prepareRevealMessage`,
+     * the pending update stores the commitment.
+     */
+    prepareCommitMessage(sender: PublicKey, message: Field, salt = Field.random()) {
+        const { addressWitness, messageWitness, update } = this.prepareStoreMessage(sender, message);
+        const commitment = committedMessageLeaf(this.zkapp.address, Field(update.index), message, salt);
+
+        return { addressWitness, messageWitness, salt, commitment, update: { ...update, value: commitment } };
+    }
+
+    /**
+     * Build the witnesses for `revealMessage`, the pending update stores the message in place of its commitment.
+     */
+    prepareRevealMessage(sender: PublicKey, message: Field, salt: Field) {
+        const { addressWitness, messageWitness, update } = this.prepareStoreMessage(sender, message);
+
+        const commitment = committedMessageLeaf(this.zkapp.address, Field(update.index), message, salt);
+        if (!this.messageTree.getNode(0, update.index).equals(commitment).toBoolean()) {
+            throw Error(`Message and salt do not match the committed message of address ${sender.toBase58()}!`);
+        }
+
+        return { addressWitness, messageWitness, update };
+    }
+
+    /**
+     * A portable inclusion proof of the message stored at an index, to be checked with `verifyMessageReceipt`.
+     * 
+     * The receipt is issued against the local message tree, so it should be taken once the storing transaction
+     * is applied.
+     */
+    getMessageReceipt(index: bigint): MessageReceipt {
+        this.assertSync();
+
+        return createMessageReceipt(this.zkapp.address, this.messageTree, index);
+    }
+
+    /**
+     * Sign a message for `relayMessage` with the spy key, on the spy side.
+     * 
+     * The signature is bound to the storage index of the spy, so it is only valid in this vault.
+     */
+    signRelayedMessage(spyKey: PrivateKey, message: Field, payoutAddress: PublicKey): RelayedMessage {
+        const sender = spyKey.toPublicKey();
+
+        const index = this.getAddressIndex(sender);
+        if (index === undefined) {
+            throw Error(`Address ${sender.toBase58()} is not stored in the vault!`);
+        }
+
+        const signature = Signature.create(spyKey, relayMessagePayload(this.zkapp.address, Field(index), message, payoutAddress));
+
+        return { sender, message, payoutAddress, signature };
+    }
+
+    /**
+     * Build the witnesses for `relayMessage`, on the relayer side.
+     */
+    prepareRelayMessage(relayedMessage: RelayedMessage) {
+        const { addressWitness, messageWitness, update } = this.prepareStoreMessage(relayedMessage.sender, relayedMessage.message);
+
+        return { ...relayedMessage, addressWitness, messageWitness, update };
+    }
+
+    /**
+     * Encrypt a payload to the admin and build the witnesses for `checkAndStoreEncryptedMessage`.
+     *
+     * A fresh ephemeral key is drawn for every call, the pending update stores the cipher text commitment.
+     */
+    prepareStoreEncryptedMessage(sender: PublicKey, payload: MessagePayload, adminPublicKey: PublicKey) {
+        const ephemeralKey = Scalar.random();
+        const encryptedMessage = EncryptedMessage.encrypt(payload, adminPublicKey, ephemeralKey);
+
+        const { addressWitness, messageWitness, update } = this.prepareStoreMessage(sender, encryptedMessage.commitment());
+
+        return { addressWitness, messageWitness, ephemeralKey, encryptedMessage, update };
+    }
+
+    /**
+     * Recursively prove a batch of signed messages for `storeMessageBatch`.
+     *
+     * Each message is proven against the message tree the previous messages of the batch led to,
+     * the local trees are left untouched until the pending updates are applied.
+     */
+    async proveMessageBatch(signedMessages: SignedMessage[]) {
+        this.assertSync();
+
+        if (signedMessages.length > maxBatchSize) {
+            throw Error(`A message batch cannot hold more than ${maxBatchSize} messages!`);
+        }
+
+        const startState = MessageBatchState.start(this.zkapp.address, this.addressTree.getRoot(), this.messageTree.getRoot());
+
+        // every message is checked before proving so that an invalid batch fails fast
+        const steps: { state: MessageBatchState, addressWitness: SpyMerkleWitness, messageWitness: MessageMerkleWitness }[] = [];
+        const updates: PendingLeafUpdate[] = [];
+        try {
+            let state = startState;
+            for (const { sender, message, signature } of signedMessages) {
+                const index = this.getAddressIndex(sender);
+                if (index === undefined) {
+                    throw Error(`Address ${sender.toBase58()} is not stored in the vault!`);
+                }
+
+                const addressWitness = new this.vaultClass.SpyMerkleWitness(this.addressTree.getWitness(index));
+                const messageWitness = new this.vaultClass.MessageMerkleWitness(this.messageTree.getWitness(index));
+
+                state = applyBatchedMessage(state, sender, signature, addressWitness, messageWitness, message);
+                steps.push({ state, addressWitness, messageWitness });
+
+                // the next message is checked against the updated message tree
+                this.messageTree.setLeaf(index, message);
+                updates.push({ tree: 'message', index, value: message });
+            }
+        } finally {
+            // revert the message leaves until the batch transaction is confirmed
+            for (const { index } of updates) this.messageTree.setLeaf(index, Field(0));
+        }
+
+        const { MessageBatchProgram } = this.vaultClass;
+
+        let proof = await MessageBatchProgram.init(startState);
+        for (const [i, { state, addressWitness, messageWitness }] of steps.entries()) {
+            const { sender, message, signature } = signedMessages[i];
+            proof = await MessageBatchProgram.insertMessage(state, proof, sender, signature, addressWitness, messageWitness, message);
+        }
+
+        const batch = MessageBatch.from(updates.map(({ index, value }) => new BatchedMessage({ index: Field(index), message: value })));
+
+        return { proof, batch, updates };
+    }
+
+    /**
+     * Build the witnesses for `revokeAddress`.
+     *
+     * Revoking zeroes both the address leaf and the message leaf of the slot.
+     */
+    prepareRevokeAddress(address: PublicKey) {
+        this.assertSync();
+
+        const index = this.getAddressIndex(address);
+        if (index === undefined) {
+            throw Error(`Address ${address.toBase58()} is not stored in the vault!`);
+        }
+
+        const addressDigest = this.addressTree.getNode(0, index);
+        const addressWitness = new this.vaultClass.SpyMerkleWitness(this.addressTree.getWitness(index));
+        const message = this.messageTree.getNode(0, index);
+        const messageWitness = new this.vaultClass.MessageMerkleWitness(this.messageTree.getWitness(index));
+
+        const updates: PendingLeafUpdate[] = [
+            { tree: 'address', index, value: Field(0) },
+            { tree: 'message', index, value: Field(0) },
+        ];
+
+        return { addressDigest, addressWitness, message, messageWitness, updates };
+    }
+
+    /**
+     * Build the witness for `rotateAddress` at an already allocated index.
+     */
+    prepareRotateAddress(index: bigint, spyAddress: PublicKey) {
+        this.assertSync();
+
+        if (this.getAddressIndex(spyAddress) !== undefined) {
+            throw Error(`Address ${spyAddress.toBase58()} is already stored in the vault!`);
+        }
+
+        const currentLeaf = this.addressTree.getNode(0, index);
+        const witness = new this.vaultClass.SpyMerkleWitness(this.addressTree.getWitness(index));
+
+        const update: PendingLeafUpdate = {
+            tree: 'address',
+            index,
+            value: VaultStorage.hashAddress(spyAddress),
+        };
+
+        return { currentLeaf, witness, update };
+    }
+
+    /**
+     * Apply a pending leaf update to the local trees.
+     *
+     * This must only be called after the transaction is confirmed.
+     */
+    applyUpdate(update: PendingLeafUpdate) {
+        if (update.tree === 'address') {
+            // a rotated or revoked address is no longer mapped to its index
+            const previousLeaf = this.addressTree.getNode(0, update.index);
+            this.addressIndexMap.delete(previousLeaf.toString());
+
+            this.addressTree.setLeaf(update.index, update.value);
+            if (!update.value.equals(0).toBoolean()) this.addressIndexMap.set(update.value.toString(), update.index);
+        } else {
+            this.messageTree.setLeaf(update.index, update.value);
+        }
+    }
+
+    /**
+     * Wait for a sent transaction and apply the pending updates only if it was included successfully.
+     */
+    async applyWhenIncluded(txId: Mina.TransactionId, ...updates: PendingLeafUpdate[]) {
+        if (!txId.isSuccess) {
+            throw Error('Transaction was not successful, off-chain storage is left untouched!');
+        }
+
+        await txId.wait();
+        for (const update of updates) this.applyUpdate(update);
+    }
+}
+
+function compareRoots(localRoot: Field, onchainRoot: Field): TreeSyncStatus {
+    return {
+        localRoot,
+        onchainRoot,
+        inSync: localRoot.equals(onchainRoot).toBoolean(),
+    }
+}
+
+function compareCounts(snapshotCount: Field, onchainCount: Field): CounterSyncStatus {
+    return {
+        snapshotCount,
+        onchainCount,
+        inSync: snapshotCount.equals(onchainCount).toBoolean(),
+    }
+}